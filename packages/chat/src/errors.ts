@@ -138,6 +138,23 @@ export class ToolExecutionError extends ChatError {
   }
 }
 
+/**
+ * Attachment error
+ *
+ * Attachment validation or upload failed
+ */
+export class AttachmentError extends ChatError {
+  /** File name */
+  filename?: string;
+
+  constructor(message: string, filename?: string, details?: Record<string, unknown>) {
+    super(message, 'ATTACHMENT_ERROR', { filename, ...details });
+    this.name = 'AttachmentError';
+    this.filename = filename;
+    Object.setPrototypeOf(this, AttachmentError.prototype);
+  }
+}
+
 /**
  * Check if error is SDK error
  */
@@ -172,3 +189,10 @@ export function isStreamError(error: unknown): error is StreamError {
 export function isAPIError(error: unknown): error is APIError {
   return error instanceof APIError;
 }
+
+/**
+ * Check if error is attachment error
+ */
+export function isAttachmentError(error: unknown): error is AttachmentError {
+  return error instanceof AttachmentError;
+}
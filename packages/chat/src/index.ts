@@ -21,6 +21,9 @@
 // Export public types
 export * from './types';
 export * from './errors';
+export { mergeMediaMessage } from './internal/media';
+export { createChatStore } from './store';
+export type { ChatStore } from './store';
 
 import type {
   ChatConfig,
@@ -29,8 +32,27 @@ import type {
   StreamCallbacks,
   Unsubscribe,
   SessionConfig,
+  ConnectionState,
+  ConnectionStateCallback,
+  SessionInfo,
+  SendMessageOptions,
+  MessageStatusCallback,
+  WebSocketFactoryOptions,
+  ChatTurn,
+  SessionUsage,
+  PermissionRequestHandler,
+  SystemInfo,
+  ChatManagerConfig,
+  ConversationOptions,
 } from './types';
+import { SessionError, StreamError } from './errors';
 import { WebSocketTransport } from './internal/transport';
+import { uploadAttachments } from './internal/attachments';
+import { Outbox } from './internal/outbox';
+import { ChatTurnImpl } from './internal/turn';
+import { SocketMultiplexer } from './internal/multiplexer';
+import { defaultWebSocketFactory } from './internal/transport';
+import { createLogger, type NamespacedLogger } from './internal/logger';
 
 /**
  * Connection options
@@ -48,13 +70,45 @@ export interface ConnectOptions {
 export interface ChatClient {
   /**
    * Connect WebSocket
+   *
+   * Resolves once the server has initialized the session.
    */
-  connect(options?: ConnectOptions): Promise<void>;
+  connect(options?: ConnectOptions): Promise<SessionInfo>;
 
   /**
    * Send message
    */
-  sendMessage(content: string): Promise<UserMessage>;
+  sendMessage(content: string, options?: SendMessageOptions): Promise<UserMessage>;
+
+  /**
+   * Send message and stream the turn as an async iterable
+   */
+  send(content: string, options?: SendMessageOptions): ChatTurn;
+
+  /**
+   * Listen for delivery status changes of sent messages
+   */
+  onMessageStatusChange(callback: MessageStatusCallback): Unsubscribe;
+
+  /**
+   * Change session configuration (model, max_turns) without reconnecting
+   */
+  updateSession(config: SessionConfig): Promise<SystemInfo>;
+
+  /**
+   * Run a slash command advertised by the runtime (e.g. `/compact`)
+   */
+  runCommand(command: string, args?: string): ChatTurn;
+
+  /**
+   * Get the latest system information (available after the first system message)
+   */
+  getSystemInfo(): SystemInfo | null;
+
+  /**
+   * Handle tool permission requests (approve or deny agent tool calls)
+   */
+  onPermissionRequest(handler: PermissionRequestHandler): Unsubscribe;
 
   /**
    * Listen for new messages
@@ -78,13 +132,112 @@ export interface ChatClient {
    * Check connection status
    */
   isConnected(): boolean;
+
+  /**
+   * Get current connection state
+   */
+  getConnectionState(): ConnectionState;
+
+  /**
+   * Get the conversation ID of this client
+   */
+  getConversationId(): string;
+
+  /**
+   * Get session information (available after connect)
+   */
+  getSessionInfo(): SessionInfo | null;
+
+  /**
+   * Get the last measured heartbeat round-trip time (ms)
+   */
+  getLatency(): number | null;
+
+  /**
+   * Listen for connection state changes
+   */
+  onConnectionStateChange(callback: ConnectionStateCallback): Unsubscribe;
+
+  /**
+   * Get accumulated usage, cost and timing of this client
+   */
+  getUsage(): SessionUsage;
+}
+
+/**
+ * Chat manager interface (many conversations over one connection)
+ */
+export interface ChatManager {
+  /**
+   * Get the client of a conversation (created on first use)
+   */
+  conversation(conversationId: string, options?: ConversationOptions): ChatClient;
+
+  /**
+   * IDs of the conversations created by this manager
+   */
+  getConversationIds(): string[];
+
+  /**
+   * Disconnect and forget a conversation
+   */
+  remove(conversationId: string): Promise<void>;
+
+  /**
+   * Disconnect all conversations (closes the shared connection)
+   */
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Resolve how the token is sent (header auth needs a custom WebSocket implementation)
+ * @internal
+ */
+function resolveAuthTransport(
+  config: Pick<ChatConfig, 'authTransport' | 'webSocketFactory'>,
+  logger?: NamespacedLogger
+): NonNullable<ChatConfig['authTransport']> {
+  const authTransport = config.authTransport || 'query';
+
+  if (authTransport === 'header' && !config.webSocketFactory) {
+    logger?.warn('authTransport "header" requires webSocketFactory, falling back to "query"');
+    return 'query';
+  }
+
+  return authTransport;
+}
+
+/**
+ * Build WebSocket connection options (auth header / subprotocol)
+ * @internal
+ */
+function buildSocketOptions(
+  config: ChatConfig,
+  authTransport: NonNullable<ChatConfig['authTransport']>
+): WebSocketFactoryOptions {
+  // A complete wsURL already carries its own authentication
+  if (config.wsURL) {
+    return {};
+  }
+
+  switch (authTransport) {
+    case 'header':
+      return { headers: { Authorization: `Bearer ${config.token}` } };
+    case 'subprotocol':
+      return { protocols: ['bearer', config.token] };
+    default:
+      return {};
+  }
 }
 
 /**
  * Build WebSocket URL
  * @internal
  */
-function buildWebSocketURL(config: ChatConfig): string {
+function buildWebSocketURL(
+  config: ChatConfig,
+  authTransport: NonNullable<ChatConfig['authTransport']>
+): string {
   // If complete wsURL is provided, use it directly
   if (config.wsURL) {
     return config.wsURL;
@@ -99,9 +252,25 @@ function buildWebSocketURL(config: ChatConfig): string {
     .replace(/^http:\/\//, 'ws://')
     .replace(/^https:\/\//, 'wss://');
 
+  // Token is sent as header / subprotocol instead of in the URL
+  if (authTransport !== 'query') {
+    return `${wsBase}ws`;
+  }
+
   return `${wsBase}ws?token=${config.token}`;
 }
 
+/**
+ * Generate client message ID (idempotency key)
+ * @internal
+ */
+function generateClientMessageId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `cmsg_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
 /**
  * Create chat client
  *
@@ -141,20 +310,80 @@ function buildWebSocketURL(config: ChatConfig): string {
  * ```
  */
 export function createChat(config: ChatConfig): ChatClient {
-  const wsURL = buildWebSocketURL(config);
+  const logger = createLogger(config.logger, 'sealink:client');
+  const authTransport = resolveAuthTransport(config, logger);
+  const wsURL = buildWebSocketURL(config, authTransport);
 
-  const transport = new WebSocketTransport(
-    wsURL,
-    config.timeout,
-    config.sessionConfig,
-    config.retry
+  const transport = new WebSocketTransport(wsURL, {
+    timeout: config.timeout,
+    sessionConfig: config.sessionConfig,
+    retry: config.retry,
+    autoReconnect: config.autoReconnect,
+    heartbeat: config.heartbeat,
+    webSocketFactory: config.webSocketFactory,
+    socketOptions: buildSocketOptions(config, authTransport),
+    logger: createLogger(config.logger, 'sealink:transport'),
+  });
+
+  const outbox = new Outbox(
+    transport,
+    config.queueOfflineMessages ?? false,
+    createLogger(config.logger, 'sealink:outbox')
   );
 
-  return {
+  // Turns whose attachments are uploading, and those aborted meanwhile
+  const uploading = new Set<string>();
+  const cancelled = new Set<string>();
+
+  /**
+   * Upload attachments and send (or queue) a user message
+   *
+   * `clientMessageId` doubles as the turn ID of all responses to the message.
+   */
+  async function sendUserMessage(
+    content: string,
+    options: SendMessageOptions | undefined,
+    clientMessageId: string
+  ): Promise<UserMessage> {
+    // Upload attachments
+    let uploaded: Awaited<ReturnType<typeof uploadAttachments>> | null = null;
+    if (options?.attachments?.length) {
+      uploading.add(clientMessageId);
+      try {
+        uploaded = await uploadAttachments(options.attachments, config.attachments || {});
+      } finally {
+        uploading.delete(clientMessageId);
+      }
+    }
+
+    if (cancelled.delete(clientMessageId)) {
+      throw new StreamError('Turn aborted', config.conversationId, { aborted: true });
+    }
+
+    const userMessage: UserMessage = {
+      id: `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+      conversationId: config.conversationId,
+      role: 'user',
+      content,
+      createdAt: Date.now(),
+      clientMessageId,
+      turnId: clientMessageId,
+      ...(uploaded ? { attachments: uploaded.attachments } : {}),
+    };
+
+    // Send (or queue) message, immediately return it as pending
+    return outbox.send(userMessage, uploaded?.data);
+  }
+
+  const client: ChatClient = {
     /**
      * Connect WebSocket
      *
+     * Resolves once the server confirms the session with `session_initialized`.
+     * Rejects with `SessionError` if the server refuses to initialize the session.
+     *
      * @param options - Connection options (optional)
+     * @returns Session information (`isProcessing` tells whether a turn is already running)
      *
      * @example Basic connection
      * ```ts
@@ -172,8 +401,8 @@ export function createChat(config: ChatConfig): ChatClient {
      * });
      * ```
      */
-    async connect(options?: ConnectOptions): Promise<void> {
-      await transport.connect(
+    async connect(options?: ConnectOptions): Promise<SessionInfo> {
+      return transport.connect(
         config.conversationId,
         config.appId,
         options?.sessionConfig,
@@ -184,7 +413,16 @@ export function createChat(config: ChatConfig): ChatClient {
     /**
      * Send message
      *
+     * Attachments are validated (size, MIME type) and uploaded with `attachments.upload`
+     * before the message is sent.
+     *
+     * The returned message has `status: 'pending'`; use `onMessageStatusChange` to
+     * learn when it is `sent` (acknowledged by the server) or `failed`.
+     * While disconnected, the message is queued if `queueOfflineMessages` is enabled,
+     * otherwise a `ConnectionError` is thrown.
+     *
      * @param content - Message content (plain text)
+     * @param options - Send options (optional)
      * @returns Sent user message
      *
      * @example
@@ -192,21 +430,183 @@ export function createChat(config: ChatConfig): ChatClient {
      * const userMsg = await chat.sendMessage('Hello!');
      * console.log(userMsg.content); // 'Hello!'
      * ```
+     *
+     * @example With attachments
+     * ```ts
+     * // Requires `attachments.upload` in ChatConfig
+     * const file = input.files[0];
+     * const userMsg = await chat.sendMessage('What is in this screenshot?', {
+     *   attachments: [file],
+     * });
+     * console.log(userMsg.attachments?.[0].fileId);
+     * ```
      */
-    async sendMessage(content: string): Promise<UserMessage> {
-      // Send message
-      transport.sendUserMessage(config.conversationId, content);
-
-      // Immediately return user message
-      const userMessage: UserMessage = {
-        id: `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
-        conversationId: config.conversationId,
-        role: 'user',
-        content,
-        createdAt: Date.now(),
-      };
+    async sendMessage(content: string, options?: SendMessageOptions): Promise<UserMessage> {
+      return sendUserMessage(content, options, generateClientMessageId());
+    },
+
+    /**
+     * Send message and stream the turn as an async iterable
+     *
+     * Yields text and thinking deltas, tool calls and results, media and
+     * complete assistant messages; iteration ends after the `result` event.
+     * Events are buffered from the moment `send` is called; responses to
+     * other messages sent concurrently are not included.
+     *
+     * @param content - Message content (plain text)
+     * @param options - Send options (optional)
+     * @returns Turn handle
+     *
+     * @example Iterate events
+     * ```ts
+     * for await (const event of chat.send('Hello!')) {
+     *   if (event.type === 'text_delta') process.stdout.write(event.text);
+     * }
+     * ```
+     *
+     * @example Wait for the final message
+     * ```ts
+     * const turn = chat.send('Summarize this document');
+     * setTimeout(() => turn.abort(), 60_000);
+     * const result = await turn.finalMessage();
+     * ```
+     */
+    send(content: string, options?: SendMessageOptions): ChatTurn {
+      const turnId = generateClientMessageId();
+
+      return new ChatTurnImpl(
+        transport,
+        config.conversationId,
+        turnId,
+        () => sendUserMessage(content, options, turnId),
+        () => {
+          if (uploading.has(turnId)) cancelled.add(turnId);
+          else outbox.cancel(turnId);
+        },
+        createLogger(config.logger, 'sealink:turn')
+      );
+    },
+
+    /**
+     * Change session configuration without reconnecting
+     *
+     * Resolves with the updated system information once the server confirms
+     * the change. The new configuration is also used when reconnecting.
+     *
+     * @param config - Fields to change
+     * @returns Updated system information
+     *
+     * @example
+     * ```ts
+     * const info = await chat.updateSession({ model: 'claude-opus-4', max_turns: 50 });
+     * console.log(info.model);
+     * ```
+     */
+    updateSession(config: SessionConfig): Promise<SystemInfo> {
+      return transport.updateSession(config);
+    },
+
+    /**
+     * Run a slash command
+     *
+     * The command is sent as a user message, so the turn can be iterated like
+     * any other. When the runtime has advertised its `slashCommands`, unknown
+     * commands are not sent and the returned turn rejects with `SessionError`
+     * (code `UNKNOWN_COMMAND`).
+     *
+     * @param command - Command name, with or without leading `/`
+     * @param args - Command arguments (optional)
+     * @returns Turn handle
+     *
+     * @example
+     * ```ts
+     * await chat.runCommand('/compact').finalMessage();
+     * ```
+     */
+    runCommand(command: string, args?: string): ChatTurn {
+      const name = command.replace(/^\//, '');
+      const available = transport.getSystemInfo()?.slashCommands;
+
+      if (available && !available.some((c) => c.replace(/^\//, '') === name)) {
+        const error = new SessionError(`Unknown command: /${name}`, { command: name, available });
+        error.code = 'UNKNOWN_COMMAND';
+
+        // Nothing is sent: the turn's iteration, userMessage and finalMessage() reject
+        return new ChatTurnImpl(
+          transport,
+          config.conversationId,
+          generateClientMessageId(),
+          () => Promise.reject(error),
+          () => {},
+          createLogger(config.logger, 'sealink:turn')
+        );
+      }
+
+      return client.send(args ? `/${name} ${args}` : `/${name}`);
+    },
+
+    /**
+     * Get the latest system information
+     *
+     * Same data as the `onSystem` callback (model, tools, slash commands, ...),
+     * kept up to date after `updateSession`.
+     *
+     * @returns System information, or null before the first system message
+     */
+    getSystemInfo(): SystemInfo | null {
+      return transport.getSystemInfo();
+    },
 
-      return userMessage;
+    /**
+     * Listen for delivery status changes of sent messages
+     *
+     * Called with an updated copy of the message when it becomes `sent` or `failed`.
+     * Match it by `clientMessageId`.
+     *
+     * @param callback - Receives the updated user message
+     * @returns Unsubscribe function
+     *
+     * @example
+     * ```ts
+     * chat.onMessageStatusChange((msg) => {
+     *   messages = messages.map((m) =>
+     *     m.clientMessageId === msg.clientMessageId ? msg : m
+     *   );
+     * });
+     * ```
+     */
+    onMessageStatusChange(callback: MessageStatusCallback): Unsubscribe {
+      return outbox.onStatusChange(callback);
+    },
+
+    /**
+     * Handle tool permission requests
+     *
+     * Called when the agent needs confirmation before running a tool (depending
+     * on the runtime's permission mode). Only one handler is active; registering
+     * a new one replaces the previous. Without a handler, or if the handler
+     * throws, the request is denied. Denials are reported via `onPermissionDenial`.
+     *
+     * @param handler - Returns `'allow'` or `'deny'` (may be async)
+     * @returns Unsubscribe function
+     *
+     * @example
+     * ```ts
+     * chat.onPermissionRequest(async (request) => {
+     *   const ok = await confirmDialog(`Allow ${request.toolName}?`, request.input);
+     *   return ok ? 'allow' : 'deny';
+     * });
+     * ```
+     */
+    onPermissionRequest(handler: PermissionRequestHandler): Unsubscribe {
+      transport.setPermissionHandler(handler);
+
+      return () => {
+        // Only remove if not replaced in the meantime
+        if (transport.getPermissionHandler() === handler) {
+          transport.setPermissionHandler(null);
+        }
+      };
     },
 
     /**
@@ -330,5 +730,178 @@ export function createChat(config: ChatConfig): ChatClient {
     isConnected(): boolean {
       return transport.isConnected();
     },
+
+    /**
+     * Get current connection state
+     *
+     * @example
+     * ```ts
+     * if (chat.getConnectionState() === 'reconnecting') {
+     *   showBanner('Reconnecting...');
+     * }
+     * ```
+     */
+    getConnectionState(): ConnectionState {
+      return transport.getState();
+    },
+
+    /**
+     * Get the conversation ID of this client
+     */
+    getConversationId(): string {
+      return config.conversationId;
+    },
+
+    /**
+     * Get session information
+     *
+     * @returns Latest session information, or null before the session is initialized
+     *
+     * @example
+     * ```ts
+     * if (chat.getSessionInfo()?.isProcessing) {
+     *   showTypingIndicator();
+     * }
+     * ```
+     */
+    getSessionInfo(): SessionInfo | null {
+      return transport.getSessionInfo();
+    },
+
+    /**
+     * Get the last measured heartbeat round-trip time
+     *
+     * Measured from the server's answer to the heartbeat (`pong`), so it is
+     * null until the first answer, or if the server does not answer heartbeats.
+     * A socket that stays silent after a heartbeat is dropped and reconnected
+     * (see `heartbeat` in `ChatConfig`).
+     *
+     * @returns Latency in milliseconds, or null
+     *
+     * @example
+     * ```ts
+     * const latency = chat.getLatency();
+     * qualityBadge.textContent = latency === null ? '—' : latency < 300 ? 'good' : 'slow';
+     * ```
+     */
+    getLatency(): number | null {
+      return transport.getLatency();
+    },
+
+    /**
+     * Listen for connection state changes
+     *
+     * After an unexpected close the client reconnects automatically (unless
+     * `autoReconnect: false`) and resumes the session from the newest message seen.
+     *
+     * @param callback - Receives `connecting`, `open`, `reconnecting` or `closed`
+     * @returns Unsubscribe function
+     *
+     * @example
+     * ```ts
+     * chat.onConnectionStateChange((state) => {
+     *   statusIndicator.textContent = state;
+     * });
+     * ```
+     */
+    onConnectionStateChange(callback: ConnectionStateCallback): Unsubscribe {
+      return transport.onStateChange(callback);
+    },
+
+    /**
+     * Get accumulated usage, cost and timing of this client
+     *
+     * Totals are summed from every `result` frame (failed turns included)
+     * since the client was created, across reconnects.
+     *
+     * @returns Snapshot of the session totals
+     *
+     * @example
+     * ```ts
+     * const { usage, totalCostUsd } = chat.getUsage();
+     * console.log(`${usage.input_tokens + usage.output_tokens} tokens, $${totalCostUsd.toFixed(4)}`);
+     * ```
+     */
+    getUsage(): SessionUsage {
+      return transport.getUsage();
+    },
+  };
+
+  return client;
+}
+
+/**
+ * Create chat manager
+ *
+ * Multiplexes many conversations over a single WebSocket connection
+ * (heartbeats of idle conversations are coalesced). Each conversation gets its
+ * own `ChatClient` with its own listeners, session, turns and usage; connect it
+ * with `connect()` as usual.
+ * Server frames are routed by `conversation_id`. Turns are sent one at a time
+ * across conversations, so untagged stream frames always belong to the running
+ * turn; a message sent while another conversation is answering waits for it.
+ *
+ * @param config - SDK configuration shared by all conversations
+ * @returns Chat manager instance
+ *
+ * @example
+ * ```ts
+ * const manager = createChatManager({
+ *   apiURL: 'https://api.example.com',
+ *   appId: 'your-app-id',
+ *   token: 'your-token'
+ * });
+ *
+ * const support = manager.conversation('conversation-a');
+ * const research = manager.conversation('conversation-b');
+ * await Promise.all([support.connect(), research.connect()]);
+ *
+ * research.onMessage((msg) => renderSidebarItem('conversation-b', msg));
+ * await support.sendMessage('Hello!');
+ * ```
+ */
+export function createChatManager(config: ChatManagerConfig): ChatManager {
+  const multiplexer = new SocketMultiplexer(config.webSocketFactory || defaultWebSocketFactory);
+  const clients = new Map<string, ChatClient>();
+
+  // Keep the header fallback of a single client when no custom WebSocket is given
+  const authTransport = config.webSocketFactory
+    ? config.authTransport
+    : resolveAuthTransport(config, createLogger(config.logger, 'sealink:client'));
+
+  return {
+    conversation(conversationId: string, options?: ConversationOptions): ChatClient {
+      let client = clients.get(conversationId);
+
+      if (!client) {
+        client = createChat({
+          ...config,
+          conversationId,
+          appId: options?.appId ?? config.appId,
+          sessionConfig: options?.sessionConfig ?? config.sessionConfig,
+          authTransport,
+          webSocketFactory: multiplexer.factory,
+        });
+        clients.set(conversationId, client);
+      }
+
+      return client;
+    },
+
+    getConversationIds(): string[] {
+      return [...clients.keys()];
+    },
+
+    async remove(conversationId: string): Promise<void> {
+      const client = clients.get(conversationId);
+      if (!client) return;
+
+      clients.delete(conversationId);
+      await client.disconnect();
+    },
+
+    async disconnect(): Promise<void> {
+      await Promise.all([...clients.values()].map((client) => client.disconnect()));
+    },
   };
 }
@@ -0,0 +1,261 @@
+/**
+ * Stream assembler - assembles stream events into complete assistant messages
+ *
+ * @internal SDK internal use
+ */
+
+import type {
+  AssistantMessage,
+  ContentPart,
+  StopReason,
+  ToolUseEvent,
+} from '../types';
+import type { StreamEventMessage, UsageData } from './protocol';
+import { toUsage } from './normalizer';
+
+/**
+ * Update produced by a stream event
+ */
+export type StreamUpdate =
+  | { type: 'text_delta'; text: string }
+  | { type: 'thinking_delta'; thinking: string }
+  | { type: 'tool_use'; toolUse: ToolUseEvent }
+  | { type: 'message'; message: AssistantMessage };
+
+/**
+ * Parse streamed tool input; malformed or truncated JSON is kept as the raw string
+ */
+function parseToolInput(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    return json;
+  }
+}
+
+/**
+ * Content block being streamed
+ */
+interface BlockState {
+  type: 'text' | 'thinking' | 'tool_use';
+  content: string;
+  toolId?: string;
+  toolName?: string;
+  toolInput?: unknown;
+}
+
+/**
+ * Message (turn) being streamed
+ */
+interface MessageState {
+  id?: string;
+  model?: string;
+  stopReason?: StopReason;
+  usage?: UsageData;
+  blocks: Map<number, BlockState>;
+  /** No message_start received (server only sends content_block_* events) */
+  implicit: boolean;
+}
+
+/**
+ * Stream assembler
+ *
+ * Tracks content blocks by their `index`, so interleaved or consecutive text,
+ * thinking and tool input blocks do not overwrite each other. Emits exactly one
+ * assembled message per `message_start` … `message_stop` sequence.
+ *
+ * For servers that only send `content_block_*` events, a message is emitted
+ * when a text block stops.
+ */
+export class StreamAssembler {
+  private current: MessageState | null = null;
+
+  /**
+   * Handle a stream event
+   */
+  handle(event: StreamEventMessage, conversationId: string): StreamUpdate[] {
+    const eventBlock = event.event;
+    const index = eventBlock.index ?? 0;
+
+    switch (eventBlock.type) {
+      case 'message_start':
+        this.current = {
+          id: eventBlock.message?.id,
+          model: eventBlock.message?.model,
+          usage: eventBlock.message?.usage,
+          blocks: new Map(),
+          implicit: false,
+        };
+        return [];
+
+      case 'message_delta': {
+        const message = this.ensureMessage();
+        if (eventBlock.delta?.stop_reason !== undefined) {
+          message.stopReason = eventBlock.delta.stop_reason as StopReason;
+        }
+        if (eventBlock.usage) {
+          message.usage = { ...message.usage, ...eventBlock.usage };
+        }
+        return [];
+      }
+
+      case 'message_stop':
+        return this.finish(conversationId);
+
+      case 'content_block_start': {
+        const message = this.ensureMessage();
+        const contentBlock = eventBlock.content_block;
+        const type =
+          contentBlock?.type === 'thinking' ? 'thinking' :
+          contentBlock?.type === 'tool_use' ? 'tool_use' :
+          'text';
+
+        message.blocks.set(index, {
+          type,
+          content: contentBlock?.text || '',
+          toolId: contentBlock?.id,
+          toolName: contentBlock?.name,
+          toolInput: contentBlock?.input,
+        });
+        return [];
+      }
+
+      case 'content_block_delta': {
+        const delta = eventBlock.delta;
+        if (!delta) return [];
+
+        const message = this.ensureMessage();
+        let block = message.blocks.get(index);
+
+        if (delta.type === 'text_delta' && delta.text) {
+          block = block || this.addBlock(message, index, 'text');
+          block.content += delta.text;
+          return [{ type: 'text_delta', text: delta.text }];
+        }
+
+        if (delta.type === 'thinking_delta' && delta.thinking) {
+          block = block || this.addBlock(message, index, 'thinking');
+          block.content += delta.thinking;
+          return [{ type: 'thinking_delta', thinking: delta.thinking }];
+        }
+
+        if (delta.type === 'input_json_delta' && delta.partial_json) {
+          block = block || this.addBlock(message, index, 'tool_use');
+          block.content += delta.partial_json;
+        }
+        return [];
+      }
+
+      case 'content_block_stop': {
+        const message = this.current;
+        const block = message?.blocks.get(index);
+        if (!message || !block) return [];
+
+        const updates: StreamUpdate[] = [];
+
+        if (block.type === 'tool_use') {
+          block.toolInput = block.content ? parseToolInput(block.content) : (block.toolInput ?? {});
+          updates.push({
+            type: 'tool_use',
+            toolUse: {
+              id: block.toolId || '',
+              conversationId,
+              name: block.toolName || '',
+              input: block.toolInput,
+              parentToolUseId: event.parent_tool_use_id ?? null,
+            },
+          });
+        }
+
+        if (message.implicit && block.type === 'text') {
+          updates.push(...this.finish(conversationId));
+        }
+
+        return updates;
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Discard the message being assembled (e.g. after a disconnect)
+   */
+  reset(): void {
+    this.current = null;
+  }
+
+  /**
+   * Get the current message state, opening an implicit one if needed
+   */
+  private ensureMessage(): MessageState {
+    if (!this.current) {
+      this.current = { blocks: new Map(), implicit: true };
+    }
+    return this.current;
+  }
+
+  private addBlock(message: MessageState, index: number, type: BlockState['type']): BlockState {
+    const block: BlockState = { type, content: '' };
+    message.blocks.set(index, block);
+    return block;
+  }
+
+  /**
+   * Assemble the current message and clear state
+   */
+  private finish(conversationId: string): StreamUpdate[] {
+    const message = this.current;
+    this.current = null;
+    if (!message) return [];
+
+    const parts: ContentPart[] = [...message.blocks.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, block]): ContentPart => {
+        if (block.type === 'thinking') {
+          return { type: 'thinking', thinking: block.content };
+        }
+        if (block.type === 'tool_use') {
+          return {
+            type: 'tool_use',
+            id: block.toolId || '',
+            name: block.toolName || '',
+            input: block.toolInput ?? {},
+          };
+        }
+        return { type: 'text', text: block.content };
+      });
+
+    const content = parts
+      .filter((part): part is Extract<ContentPart, { type: 'text' }> => part.type === 'text')
+      .map((part) => part.text)
+      .join('\n');
+    const thinking = parts
+      .filter((part): part is Extract<ContentPart, { type: 'thinking' }> => part.type === 'thinking')
+      .map((part) => part.thinking)
+      .join('\n');
+
+    const assembled: AssistantMessage = {
+      id: message.id || this.generateId(),
+      conversationId,
+      role: 'assistant',
+      content,
+      ...(thinking ? { thinking } : {}),
+      parts,
+      createdAt: Date.now(),
+      ...(message.usage ? { usage: toUsage(message.usage) } : {}),
+      ...(message.stopReason !== undefined ? { stopReason: message.stopReason } : {}),
+      ...(message.model ? { model: message.model } : {}),
+    };
+
+    return [{ type: 'message', message: assembled }];
+  }
+
+  /**
+   * Generate message ID
+   */
+  private generateId(): string {
+    return `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+  }
+}
@@ -0,0 +1,220 @@
+/**
+ * Attachment handling - MIME detection, validation and upload
+ *
+ * @internal SDK internal use
+ */
+
+import type {
+  Attachment,
+  AttachmentConfig,
+  AttachmentInput,
+  AttachmentType,
+} from '../types';
+import type { AttachmentData } from './protocol';
+import { AttachmentError } from '../errors';
+
+/**
+ * Default maximum file size (20 MB)
+ */
+const DEFAULT_MAX_FILE_SIZE = 20 * 1024 * 1024;
+
+/**
+ * Default maximum attachments per message
+ */
+const DEFAULT_MAX_ATTACHMENTS = 10;
+
+/**
+ * MIME types by file extension
+ */
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  md: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  html: 'text/html',
+  zip: 'application/zip',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * File signatures (magic bytes) for content sniffing
+ */
+const FILE_SIGNATURES: Array<{ bytes: number[]; offset?: number; mimeType: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], mimeType: 'image/png' },
+  { bytes: [0xff, 0xd8, 0xff], mimeType: 'image/jpeg' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: 'image/gif' },
+  { bytes: [0x57, 0x45, 0x42, 0x50], offset: 8, mimeType: 'image/webp' },
+  { bytes: [0x25, 0x50, 0x44, 0x46], mimeType: 'application/pdf' },
+  { bytes: [0x49, 0x44, 0x33], mimeType: 'audio/mpeg' },
+  { bytes: [0x57, 0x41, 0x56, 0x45], offset: 8, mimeType: 'audio/wav' },
+  { bytes: [0x4f, 0x67, 0x67, 0x53], mimeType: 'audio/ogg' },
+];
+
+/**
+ * Resolved attachment (ready to upload)
+ */
+interface ResolvedAttachment {
+  blob: Blob;
+  filename: string;
+  mimeType: string;
+}
+
+/**
+ * Detect MIME type from filename extension or file content
+ */
+export async function detectMimeType(blob: Blob, filename: string): Promise<string> {
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+  if (MIME_TYPES_BY_EXTENSION[extension]) {
+    return MIME_TYPES_BY_EXTENSION[extension];
+  }
+
+  const header = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+  const signature = FILE_SIGNATURES.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, i) => header[offset + i] === byte)
+  );
+
+  return signature?.mimeType || 'application/octet-stream';
+}
+
+/**
+ * Get attachment type from MIME type
+ */
+export function getAttachmentType(mimeType: string): AttachmentType {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'file';
+}
+
+/**
+ * Check MIME type against an allow list (supports `type/*` wildcards)
+ */
+function isMimeTypeAllowed(mimeType: string, allowed?: string[]): boolean {
+  if (!allowed || allowed.length === 0) return true;
+
+  return allowed.some((pattern) =>
+    pattern.endsWith('/*')
+      ? mimeType.startsWith(pattern.slice(0, -1))
+      : mimeType === pattern
+  );
+}
+
+/**
+ * Convert attachment input to Blob with filename and MIME type
+ */
+async function resolveAttachment(input: AttachmentInput, index: number): Promise<ResolvedAttachment> {
+  const isBlobInput = typeof Blob !== 'undefined' && input instanceof Blob;
+  const data = isBlobInput ? (input as Blob) : (input as Exclude<AttachmentInput, Blob>).data;
+  const blob = data instanceof Blob ? data : new Blob([data as BlobPart]);
+
+  const filename =
+    (!isBlobInput && (input as Exclude<AttachmentInput, Blob>).filename) ||
+    ('name' in blob && typeof blob.name === 'string' && blob.name) ||
+    `attachment-${index + 1}`;
+
+  const mimeType =
+    (!isBlobInput && (input as Exclude<AttachmentInput, Blob>).mimeType) ||
+    blob.type ||
+    (await detectMimeType(blob, filename));
+
+  return {
+    blob: blob.type === mimeType ? blob : new Blob([blob], { type: mimeType }),
+    filename,
+    mimeType,
+  };
+}
+
+/**
+ * Validate and upload attachments
+ *
+ * @returns Uploaded attachments (public format) and their protocol representation
+ */
+export async function uploadAttachments(
+  inputs: AttachmentInput[],
+  config: AttachmentConfig
+): Promise<{ attachments: Attachment[]; data: AttachmentData[] }> {
+  const maxAttachments = config.maxAttachments ?? DEFAULT_MAX_ATTACHMENTS;
+  const maxFileSize = config.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const upload = config.upload;
+
+  if (!upload) {
+    throw new AttachmentError('No uploader configured; set attachments.upload in ChatConfig');
+  }
+
+  if (inputs.length > maxAttachments) {
+    throw new AttachmentError(`Too many attachments: ${inputs.length} (max ${maxAttachments})`, undefined, {
+      count: inputs.length,
+      maxAttachments,
+    });
+  }
+
+  const resolved = await Promise.all(inputs.map(resolveAttachment));
+
+  // Validate all files before uploading any of them
+  for (const file of resolved) {
+    if (file.blob.size > maxFileSize) {
+      throw new AttachmentError(
+        `File "${file.filename}" is too large: ${file.blob.size} bytes (max ${maxFileSize})`,
+        file.filename,
+        { size: file.blob.size, maxFileSize }
+      );
+    }
+
+    if (!isMimeTypeAllowed(file.mimeType, config.allowedMimeTypes)) {
+      throw new AttachmentError(
+        `File type "${file.mimeType}" is not allowed`,
+        file.filename,
+        { mimeType: file.mimeType, allowedMimeTypes: config.allowedMimeTypes }
+      );
+    }
+  }
+
+  const attachments = await Promise.all(
+    resolved.map(async (file): Promise<Attachment> => {
+      const info = { filename: file.filename, mimeType: file.mimeType, size: file.blob.size };
+
+      let result;
+      try {
+        result = await upload(file.blob, info);
+      } catch (error) {
+        throw new AttachmentError(
+          error instanceof Error ? error.message : 'File upload failed',
+          file.filename,
+          { cause: error }
+        );
+      }
+
+      return {
+        type: getAttachmentType(file.mimeType),
+        fileId: result.fileId,
+        filename: file.filename,
+        mimeType: file.mimeType,
+        size: file.blob.size,
+        ...(result.url ? { url: result.url } : {}),
+      };
+    })
+  );
+
+  const data: AttachmentData[] = attachments.map((attachment) => ({
+    attachment_type: attachment.type,
+    file_id: attachment.fileId,
+    filename: attachment.filename,
+    mime_type: attachment.mimeType,
+    size: attachment.size,
+  }));
+
+  return { attachments, data };
+}
@@ -0,0 +1,146 @@
+/**
+ * Turn tracking - correlates server frames with the user message that triggered them
+ *
+ * @internal SDK internal use
+ */
+
+import type { ServerMessage } from './protocol';
+
+/**
+ * Correlation context of a server frame
+ */
+export interface TurnContext {
+  /** Client message ID of the triggering user message */
+  turnId?: string;
+  /** Server session ID */
+  sessionId?: string;
+  /** Server frame UUID */
+  uuid?: string;
+  /** Parent tool use ID (frames produced inside a sub-agent/tool call) */
+  parentToolUseId?: string | null;
+}
+
+/**
+ * Turn tracker
+ *
+ * The server processes user messages one at a time, so frames belong to the
+ * oldest turn that has not ended yet. A turn ends on its `result`, or on an
+ * `error` that names it — untagged errors only end it while no session request
+ * (init, update) is waiting, since they may answer that request instead. An
+ * interrupted turn also ends when the next user message is sent, in case the
+ * server does not answer the interrupt. A `client_message_id` echoed by the
+ * server takes precedence over this ordering.
+ */
+export class TurnTracker {
+  private pending: string[] = [];
+  private interrupted = new Set<string>();
+  /** Turns aborted while queued behind another one */
+  private deferred = new Set<string>();
+
+  /**
+   * Register a sent user message
+   */
+  begin(turnId: string): void {
+    // Interrupted turns that never got a result are over by now
+    if (this.interrupted.size > 0) {
+      this.pending = this.pending.filter((id) => !this.interrupted.has(id));
+      this.interrupted.clear();
+    }
+
+    if (!this.pending.includes(turnId)) {
+      this.pending.push(turnId);
+    }
+  }
+
+  /**
+   * Mark the current turn as interrupted
+   */
+  interrupt(): void {
+    if (this.pending[0]) {
+      this.interrupted.add(this.pending[0]);
+    }
+  }
+
+  /**
+   * Abort a specific turn
+   *
+   * @returns `running` when it is the current turn (interrupt it now),
+   * `queued` when it was sent but waits behind another turn (it is
+   * interrupted once it starts, see `takeDeferred`), `unknown` when it was
+   * never sent
+   */
+  abort(turnId: string): 'running' | 'queued' | 'unknown' {
+    if (this.pending[0] === turnId) return 'running';
+    if (!this.pending.includes(turnId)) return 'unknown';
+
+    this.deferred.add(turnId);
+    return 'queued';
+  }
+
+  /**
+   * Whether the current turn was aborted while queued (clears the mark)
+   */
+  takeDeferred(): boolean {
+    const current = this.pending[0];
+    if (!current || !this.deferred.has(current)) return false;
+
+    this.deferred.delete(current);
+    return true;
+  }
+
+  /**
+   * Resolve the context of a frame (ends the turn on `result` or `error`)
+   *
+   * @param sessionRequestPending - A session request is waiting for its answer
+   */
+  resolve(frame: ServerMessage, sessionRequestPending: boolean = false): TurnContext {
+    const fields = frame as {
+      client_message_id?: string;
+      session_id?: string;
+      uuid?: string;
+      parent_tool_use_id?: string | null;
+    };
+
+    // An untagged error answers the session request, not the running turn
+    const claimedBySession = frame.type === 'error' && !fields.client_message_id && sessionRequestPending;
+    const turnId = claimedBySession ? undefined : fields.client_message_id ?? this.pending[0];
+
+    if ((frame.type === 'result' || frame.type === 'error') && turnId) {
+      this.pending = this.pending.filter((id) => id !== turnId);
+      this.interrupted.delete(turnId);
+      this.deferred.delete(turnId);
+    }
+
+    return {
+      turnId,
+      sessionId: fields.session_id,
+      uuid: fields.uuid,
+      parentToolUseId: fields.parent_tool_use_id,
+    };
+  }
+
+  /**
+   * Forget all pending turns (e.g. after the connection is closed)
+   */
+  clear(): void {
+    this.pending = [];
+    this.interrupted.clear();
+    this.deferred.clear();
+  }
+}
+
+/**
+ * Attach turn context to an emitted message or event (keeps existing values)
+ */
+export function withTurnContext<T extends {
+  turnId?: string;
+  sessionId?: string;
+  parentToolUseId?: string | null;
+}>(target: T, context: TurnContext): T {
+  return {
+    ...target,
+    turnId: target.turnId ?? context.turnId,
+    sessionId: target.sessionId ?? context.sessionId,
+    parentToolUseId: target.parentToolUseId ?? context.parentToolUseId ?? null,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Logger - levels, namespaces and redaction on top of a pluggable output
+ *
+ * Mirrors `@seaverse/conversation-sdk`'s `src/logging/logger.ts` (the packages
+ * share no runtime code); keep redaction rules in sync when changing either.
+ * `test/logger.test.ts` fails when the two copies redact differently.
+ *
+ * @internal SDK internal use
+ */
+
+import type { Logger, LoggerOptions, LogLevel } from '../types';
+
+/**
+ * Level order (higher is more severe)
+ */
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+/**
+ * Keys whose values are credentials
+ */
+const SECRET_KEY = /token$|authorization|password|secret|api[-_]?key/i;
+
+/**
+ * Keys whose values are conversation content
+ */
+const BODY_KEYS = new Set([
+  'content',
+  'text',
+  'thinking',
+  'result',
+  'partial_json',
+  'input',
+  'tool_input',
+  'rawData',
+]);
+
+/**
+ * Credentials inside strings (URL query, Authorization header)
+ */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/([?&][\w-]*token=)[^&\s"']+/gi, '$1[REDACTED]'],
+  [/(Bearer\s+)[A-Za-z0-9._~+/=-]+/g, '$1[REDACTED]'],
+];
+
+/**
+ * Internal logger bound to a namespace
+ */
+export interface NamespacedLogger extends Logger {
+  /** Logger for a sub-namespace with the same options */
+  child(namespace: string): NamespacedLogger;
+}
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: NamespacedLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+  child: () => silentLogger,
+};
+
+/**
+ * Create a namespaced logger (silent when no options are given)
+ */
+export function createLogger(options: LoggerOptions | undefined, namespace: string): NamespacedLogger {
+  if (!options || options.level === 'silent') {
+    return silentLogger;
+  }
+
+  const minLevel = LEVELS[options.level || 'info'];
+  const output = options.output || console;
+  const redact = options.redact ?? true;
+  const enabled = !options.namespaces || options.namespaces.some((pattern) => matchNamespace(pattern, namespace));
+
+  const log = (level: Exclude<LogLevel, 'silent'>) => (message: string, ...args: unknown[]) => {
+    if (!enabled || LEVELS[level] < minLevel) return;
+
+    const prefixed = `[${namespace}] ${redact ? redactString(message) : message}`;
+    output[level](prefixed, ...(redact ? args.map((arg) => redactValue(arg)) : args));
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (child) => createLogger(options, `${namespace}:${child}`),
+  };
+}
+
+function matchNamespace(pattern: string, namespace: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith('*')) return namespace.startsWith(pattern.slice(0, -1));
+  return namespace === pattern;
+}
+
+function redactString(value: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), value);
+}
+
+/**
+ * Copy a value with credentials and conversation content replaced
+ */
+function redactValue(value: unknown, key?: string, depth: number = 0): unknown {
+  if (key !== undefined && SECRET_KEY.test(key) && value !== null && typeof value !== 'object') {
+    return '[REDACTED]';
+  }
+
+  if (key !== undefined && BODY_KEYS.has(key) && value !== null && value !== undefined) {
+    return typeof value === 'string' ? `[REDACTED ${value.length} chars]` : '[REDACTED]';
+  }
+
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (value instanceof Error) {
+    const error = Object.create(Object.getPrototypeOf(value));
+    Object.entries(value).forEach(([k, v]) => {
+      error[k] = redactValue(v, k, depth + 1);
+    });
+    error.message = redactString(value.message);
+    error.stack = value.stack && redactString(value.stack);
+    return error;
+  }
+
+  if (value === null || typeof value !== 'object' || depth > 8) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, undefined, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, redactValue(v, k, depth + 1)])
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Media results - structured media items and merging into assistant turns
+ *
+ * @internal SDK internal use
+ */
+
+import type { AssistantMessage, MediaItem, MediaKind, Message } from '../types';
+import type { MediaResultMessage } from './protocol';
+
+/**
+ * MIME types by file extension
+ */
+const MEDIA_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mkv: 'video/x-matroska',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+};
+
+/**
+ * Fallback MIME type per media kind
+ */
+const DEFAULT_MIME_TYPES: Record<MediaKind, string> = {
+  image: 'image/*',
+  video: 'video/*',
+  audio: 'audio/*',
+};
+
+/**
+ * Infer MIME type from the URL path extension
+ */
+export function inferMediaMimeType(url: string, kind: MediaKind): string {
+  const path = url.split(/[?#]/)[0];
+  const filename = path.slice(path.lastIndexOf('/') + 1);
+  const extension = filename.includes('.') ? filename.split('.').pop()!.toLowerCase() : '';
+
+  return MEDIA_MIME_TYPES[extension] || DEFAULT_MIME_TYPES[kind];
+}
+
+/**
+ * Convert a media_result frame to media items
+ */
+export function toMediaItems(msg: MediaResultMessage): MediaItem[] {
+  const groups: Array<[MediaKind, string[] | undefined]> = [
+    ['image', msg.media?.images],
+    ['video', msg.media?.videos],
+    ['audio', msg.media?.audios],
+  ];
+
+  return groups.flatMap(([kind, urls]) =>
+    (urls || []).map((url) => ({
+      kind,
+      url,
+      mimeType: inferMediaMimeType(url, kind),
+      toolUseId: msg.tool_use_id,
+    }))
+  );
+}
+
+/**
+ * Merge a media message into the assistant message that made the tool call
+ *
+ * The media items are attached to the matching `tool_use` part and to the
+ * message's `media` list. Messages without a matching tool call are appended.
+ *
+ * @param messages - Current message list
+ * @param message - Received message
+ * @returns New message list
+ *
+ * @example
+ * ```ts
+ * chat.onMessage((msg) => {
+ *   messages = mergeMediaMessage(messages, msg);
+ * });
+ * ```
+ */
+export function mergeMediaMessage(messages: Message[], message: Message): Message[] {
+  if (message.role !== 'assistant' || !message.toolUseId || !message.media) {
+    return [...messages, message];
+  }
+
+  const { toolUseId, media } = message;
+  const index = findLastIndex(messages, (m) =>
+    m.role === 'assistant' &&
+    m.id !== message.id &&
+    (m.parts || []).some((part) => part.type === 'tool_use' && part.id === toolUseId)
+  );
+
+  if (index === -1) {
+    return [...messages, message];
+  }
+
+  const target = messages[index] as AssistantMessage;
+  const merged: AssistantMessage = {
+    ...target,
+    media: [...(target.media || []), ...media],
+    parts: target.parts?.map((part) =>
+      part.type === 'tool_use' && part.id === toolUseId
+        ? { ...part, media: [...(part.media || []), ...media] }
+        : part
+    ),
+  };
+
+  return messages.map((m, i) => (i === index ? merged : m));
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,411 @@
+/**
+ * Socket multiplexer - shares one WebSocket between several conversations
+ *
+ * @internal SDK internal use
+ */
+
+import type {
+  WebSocketFactory,
+  WebSocketFactoryOptions,
+  WebSocketLike,
+} from '../types';
+import { STALE_CLOSE_CODE, toText } from './transport';
+import { ConnectionError } from '../errors';
+
+/**
+ * WebSocket readyState values
+ */
+const WS_CONNECTING = 0;
+const WS_OPEN = 1;
+const WS_CLOSED = 3;
+
+/**
+ * How long an interrupted turn may hold back other conversations without a `result`
+ */
+const INTERRUPT_TIMEOUT = 5000;
+
+/**
+ * Routing fields of a server frame
+ */
+interface FrameFields {
+  type?: string;
+  conversation_id?: string;
+  client_message_id?: string;
+}
+
+/**
+ * User message sent (or waiting to be sent) over the shared socket
+ */
+interface Turn {
+  channel: ChannelSocket;
+  clientMessageId?: string;
+  data: string;
+  /** Set once interrupted: the turn is released without waiting for its `result` */
+  interruptTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Per-conversation view of the shared socket
+ *
+ * Handed to a `WebSocketTransport` as if it were its own WebSocket.
+ */
+class ChannelSocket implements WebSocketLike {
+  conversationId?: string;
+  closed: boolean = false;
+
+  onopen: WebSocketLike['onopen'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+
+  constructor(private multiplexer: SocketMultiplexer) {}
+
+  get readyState(): number {
+    return this.closed ? WS_CLOSED : this.multiplexer.getReadyState();
+  }
+
+  send(data: string): void {
+    this.multiplexer.forward(this, data);
+  }
+
+  close(code: number = 1000, reason?: string): void {
+    if (this.closed) return;
+
+    // Heartbeat timeout: the shared socket is half-open for every conversation
+    if (code === STALE_CLOSE_CODE) {
+      this.multiplexer.recycle({ code, reason });
+      return;
+    }
+
+    this.multiplexer.detach(this);
+    this.closed = true;
+
+    // Asynchronous like a real socket close
+    setTimeout(() => this.onclose?.({ code, reason }), 0);
+  }
+}
+
+/**
+ * Socket multiplexer
+ *
+ * `factory` hands out one channel per conversation; all channels share a
+ * single underlying socket. Outgoing frames are forwarded as-is, except that
+ * heartbeats are coalesced: while one is waiting for its answer, heartbeats of
+ * other conversations are dropped, and the answer is delivered to all channels.
+ * A conversation sending its next heartbeat before the answer arrived starts a
+ * new round, so an unanswered heartbeat does not silence later ones.
+ *
+ * Turns are serialized: while one conversation's user message waits for its
+ * `result`, user messages of other conversations are held back and sent in
+ * order afterwards. An interrupted turn stops holding others back at its
+ * conversation's next user message, or after `INTERRUPT_TIMEOUT` if the server
+ * never sends its `result`. Incoming frames are routed by `conversation_id`, then by
+ * echoed `client_message_id`; untagged frames go to the conversation of the
+ * running turn, and untagged session answers to the only conversation that
+ * could be waiting for one. Frames that cannot be attributed are dropped
+ * rather than delivered to the wrong conversation.
+ *
+ * When the shared socket closes, every channel closes and each conversation
+ * reconnects through the factory, which opens one new shared socket.
+ */
+export class SocketMultiplexer {
+  private socket: WebSocketLike | null = null;
+  private channels: Set<ChannelSocket> = new Set();
+  private pendingInits: ChannelSocket[] = [];
+  /** Turn whose answer is being streamed */
+  private activeTurn: Turn | null = null;
+  /** Turns held back until the active one finishes */
+  private queuedTurns: Turn[] = [];
+  /** Channels covered by the heartbeat waiting for its answer (null: none in flight) */
+  private heartbeatRound: Set<ChannelSocket> | null = null;
+
+  constructor(private webSocketFactory: WebSocketFactory) {}
+
+  /**
+   * WebSocket factory for the per-conversation transports
+   */
+  readonly factory: WebSocketFactory = (url, options) => {
+    const channel = new ChannelSocket(this);
+    this.channels.add(channel);
+
+    if (!this.socket || this.socket.readyState > WS_OPEN) {
+      this.openSocket(url, options);
+    } else if (this.socket.readyState === WS_OPEN) {
+      // Shared socket already open: let the transport attach its handlers first
+      setTimeout(() => {
+        if (!channel.closed) channel.onopen?.({});
+      }, 0);
+    }
+
+    return channel;
+  };
+
+  /**
+   * Ready state of the shared socket
+   */
+  getReadyState(): number {
+    return this.socket ? this.socket.readyState : WS_CONNECTING;
+  }
+
+  /**
+   * Send a channel's frame over the shared socket
+   */
+  forward(channel: ChannelSocket, data: string): void {
+    if (!this.socket || this.socket.readyState !== WS_OPEN) {
+      throw new ConnectionError('WebSocket not connected');
+    }
+
+    const frame = this.parse(data);
+
+    switch (frame?.type) {
+      case 'heartbeat':
+        if (this.heartbeatRound && !this.heartbeatRound.has(channel)) {
+          this.heartbeatRound.add(channel);
+          return;
+        }
+        this.heartbeatRound = new Set([channel]);
+        break;
+
+      case 'init_session':
+        channel.conversationId = frame.conversation_id;
+        this.pendingInits.push(channel);
+        break;
+
+      case 'user':
+        this.startTurn({ channel, clientMessageId: frame.client_message_id, data });
+        return;
+
+      case 'interrupt':
+        // A turn that was never sent is cancelled locally
+        if (this.activeTurn?.channel !== channel && this.queuedTurns.some((turn) => turn.channel === channel)) {
+          this.queuedTurns = this.queuedTurns.filter((turn) => turn.channel !== channel);
+          return;
+        }
+        if (this.activeTurn?.channel === channel) {
+          this.releaseLater(this.activeTurn);
+        }
+        break;
+    }
+
+    this.socket.send(data);
+  }
+
+  /**
+   * Remove a channel (closes the shared socket after the last one)
+   */
+  detach(channel: ChannelSocket): void {
+    this.channels.delete(channel);
+    this.pendingInits = this.pendingInits.filter((c) => c !== channel);
+    this.queuedTurns = this.queuedTurns.filter((turn) => turn.channel !== channel);
+
+    if (this.channels.size === 0 && this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      this.heartbeatRound = null;
+      this.clearActiveTurn();
+      socket.close();
+    } else if (this.activeTurn?.channel === channel) {
+      this.nextTurn();
+    }
+  }
+
+  /**
+   * Close a half-open shared socket; every conversation reconnects through the
+   * factory, which opens a new one
+   */
+  recycle(event: { code: number; reason?: string }): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    const channels = this.releaseChannels();
+    socket.close();
+
+    // Asynchronous like a real socket close
+    setTimeout(() => channels.forEach((channel) => channel.onclose?.(event)), 0);
+  }
+
+  /**
+   * Open the shared socket
+   */
+  private openSocket(url: string, options: WebSocketFactoryOptions): void {
+    const socket = this.webSocketFactory(url, options);
+    this.socket = socket;
+
+    socket.onopen = (event) => {
+      if (this.socket !== socket) return;
+      this.channels.forEach((channel) => channel.onopen?.(event));
+    };
+
+    socket.onmessage = (event) => {
+      if (this.socket !== socket) return;
+      this.route(event);
+    };
+
+    socket.onerror = (event) => {
+      if (this.socket !== socket) return;
+      this.channels.forEach((channel) => channel.onerror?.(event));
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.releaseChannels().forEach((channel) => channel.onclose?.(event));
+    };
+  }
+
+  /**
+   * Forget the shared socket and close all channels
+   *
+   * @returns The closed channels
+   */
+  private releaseChannels(): ChannelSocket[] {
+    this.socket = null;
+    this.heartbeatRound = null;
+
+    const channels = [...this.channels];
+    this.channels.clear();
+    this.pendingInits = [];
+    this.clearActiveTurn();
+    this.queuedTurns = [];
+
+    channels.forEach((channel) => {
+      channel.closed = true;
+    });
+    return channels;
+  }
+
+  /**
+   * Send a user message now, or hold it back until the running turn finishes
+   */
+  private startTurn(turn: Turn): void {
+    if (this.activeTurn) {
+      this.queuedTurns.push(turn);
+
+      // The interrupted turn of this conversation has ended without a result
+      if (this.activeTurn.interruptTimer && this.activeTurn.channel === turn.channel) {
+        this.nextTurn();
+      }
+      return;
+    }
+
+    this.activeTurn = turn;
+    this.socket?.send(turn.data);
+  }
+
+  /**
+   * Finish the running turn and send the next held-back user message
+   */
+  private nextTurn(): void {
+    this.clearActiveTurn();
+
+    const next = this.queuedTurns.shift();
+    if (!next) return;
+
+    if (!this.socket || this.socket.readyState !== WS_OPEN) {
+      this.queuedTurns.unshift(next);
+      return;
+    }
+
+    this.startTurn(next);
+  }
+
+  /**
+   * Release an interrupted turn if its result does not arrive in time
+   */
+  private releaseLater(turn: Turn): void {
+    if (turn.interruptTimer) return;
+
+    turn.interruptTimer = setTimeout(() => {
+      if (this.activeTurn === turn) this.nextTurn();
+    }, INTERRUPT_TIMEOUT);
+  }
+
+  private clearActiveTurn(): void {
+    clearTimeout(this.activeTurn?.interruptTimer);
+    this.activeTurn = null;
+  }
+
+  /**
+   * Deliver an incoming frame to the channel it belongs to
+   */
+  private route(event: { data: unknown }): void {
+    const frame = this.parse(toText(event.data));
+
+    // Heartbeat answers prove the shared socket is alive for every conversation
+    if (frame?.type === 'pong' || frame?.type === 'heartbeat_ack') {
+      this.heartbeatRound = null;
+      this.channels.forEach((channel) => channel.onmessage?.(event));
+      return;
+    }
+
+    const target = frame ? this.resolveTarget(frame) : this.soleChannel();
+
+    if (target) {
+      target.onmessage?.(event);
+    }
+  }
+
+  /**
+   * Find the channel of a frame and update routing state
+   */
+  private resolveTarget(frame: FrameFields): ChannelSocket | null {
+    const sessionAnswer = frame.type === 'session_initialized' || frame.type === 'error';
+    let target: ChannelSocket | null = null;
+
+    if (frame.conversation_id) {
+      target = this.findChannel(frame.conversation_id);
+    } else if (frame.client_message_id) {
+      target = this.activeTurn?.clientMessageId === frame.client_message_id ? this.activeTurn.channel : null;
+    } else {
+      target = this.untaggedTarget(frame, sessionAnswer);
+    }
+
+    if (!target) return null;
+
+    if (sessionAnswer && this.pendingInits.includes(target)) {
+      // Session initialization answered (or refused)
+      this.pendingInits = this.pendingInits.filter((c) => c !== target);
+    } else if ((frame.type === 'result' || frame.type === 'error') && this.activeTurn?.channel === target) {
+      this.nextTurn();
+    }
+
+    return target;
+  }
+
+  /**
+   * Owner of a frame without routing fields, if there is exactly one candidate
+   */
+  private untaggedTarget(frame: FrameFields, sessionAnswer: boolean): ChannelSocket | null {
+    const sole = this.soleChannel();
+    if (sole) return sole;
+
+    const candidates = new Set<ChannelSocket>();
+    if (this.activeTurn && frame.type !== 'session_initialized') {
+      candidates.add(this.activeTurn.channel);
+    }
+    if (sessionAnswer) {
+      this.pendingInits.forEach((channel) => candidates.add(channel));
+    }
+
+    return candidates.size === 1 ? [...candidates][0] : null;
+  }
+
+  private soleChannel(): ChannelSocket | null {
+    return this.channels.size === 1 ? [...this.channels][0] : null;
+  }
+
+  private findChannel(conversationId: string): ChannelSocket | null {
+    for (const channel of this.channels) {
+      if (channel.conversationId === conversationId) return channel;
+    }
+    return null;
+  }
+
+  private parse(data: string): FrameFields | null {
+    try {
+      const frame = JSON.parse(data);
+      return frame && typeof frame === 'object' ? frame : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -4,13 +4,34 @@
  * @internal SDK internal use
  */
 
-import type { Message, AssistantMessage } from '../types';
+import type {
+  Message,
+  AssistantMessage,
+  Cost,
+  MediaResultEvent,
+  PermissionRequest,
+  ResultInfo,
+  ToolUseEvent,
+  ToolResultEvent,
+  Usage,
+} from '../types';
 import type {
   ServerMessage,
   AssistantMessageProtocol as RawAssistantMessage,
+  ErrorMessage,
   MediaResultMessage,
+  PermissionRequestMessage,
   ResultMessage,
+  UsageData,
 } from './protocol';
+import { toMediaItems } from './media';
+import { silentLogger, type NamespacedLogger } from './logger';
+import {
+  APIError,
+  ChatError,
+  SessionError,
+  ToolExecutionError,
+} from '../errors';
 
 /**
  * Protocol normalizer
@@ -21,11 +42,12 @@ export class ProtocolNormalizer {
    */
   static normalize(
     serverMsg: ServerMessage,
-    conversationId: string
+    conversationId: string,
+    logger: NamespacedLogger = silentLogger
   ): Message[] {
     switch (serverMsg.type) {
       case 'assistant':
-        return this.normalizeAssistantMessage(serverMsg, conversationId);
+        return this.normalizeAssistantMessage(serverMsg, conversationId, logger);
 
       case 'media_result':
         return this.normalizeMediaMessage(serverMsg, conversationId);
@@ -35,7 +57,7 @@ export class ProtocolNormalizer {
 
       case 'system':
         // System message (session metadata), does not produce user-visible message
-        console.log('[SeaLink] System message received:', {
+        logger.debug('System message received:', {
           subtype: serverMsg.subtype,
           session_id: serverMsg.session_id,
           model: serverMsg.model,
@@ -45,30 +67,167 @@ export class ProtocolNormalizer {
         return [];
 
       case 'error':
-        throw new Error(serverMsg.error);
+        throw this.normalizeError(serverMsg);
 
       case 'session_initialized':
         // Session initialized successfully, no message produced
         return [];
 
+      case 'message_ack':
+        // Delivery acknowledgement, handled by the outbox
+        return [];
+
+      case 'pong':
+      case 'heartbeat_ack':
+        // Heartbeat answer, handled by the transport
+        return [];
+
+      case 'permission_request':
+        // Answered by the permission handler, no message produced
+        return [];
+
       default:
-        console.warn('[SeaLink] Unknown server message type:', serverMsg);
+        logger.warn('Unknown server message type:', serverMsg);
         return [];
     }
   }
 
+  /**
+   * Map server error frame to SDK error class (keeps the server error code)
+   */
+  static normalizeError(msg: ErrorMessage): ChatError {
+    const code = msg.code || 'SERVER_ERROR';
+    const details = msg.details;
+    const upperCode = code.toUpperCase();
+
+    if (upperCode.includes('TOOL') || details?.tool_name || details?.tool_use_id) {
+      const error = new ToolExecutionError(
+        msg.error,
+        details?.tool_name as string | undefined,
+        details?.tool_use_id as string | undefined,
+        details
+      );
+      error.code = code;
+      return error;
+    }
+
+    if (upperCode.includes('SESSION') || upperCode.includes('INIT')) {
+      const error = new SessionError(msg.error, details);
+      error.code = code;
+      return error;
+    }
+
+    return new APIError(msg.error, code, undefined, details);
+  }
+
+  /**
+   * Extract tool calls and tool results from an assistant message
+   */
+  static normalizeToolEvents(
+    msg: RawAssistantMessage,
+    conversationId: string
+  ): { toolUses: ToolUseEvent[]; toolResults: ToolResultEvent[] } {
+    const toolUses: ToolUseEvent[] = [];
+    const toolResults: ToolResultEvent[] = [];
+
+    if (!msg.content || !Array.isArray(msg.content)) {
+      return { toolUses, toolResults };
+    }
+
+    const parentToolUseId = msg.parent_tool_use_id ?? null;
+
+    for (const block of msg.content) {
+      if (block.type === 'tool_use') {
+        toolUses.push({
+          id: block.id,
+          conversationId,
+          name: block.name,
+          input: block.input,
+          parentToolUseId,
+        });
+      } else if (block.type === 'tool_result') {
+        toolResults.push({
+          toolUseId: block.tool_use_id,
+          conversationId,
+          content: block.content,
+          isError: block.is_error,
+          parentToolUseId,
+        });
+      }
+    }
+
+    return { toolUses, toolResults };
+  }
+
+  /**
+   * Extract typed usage, cost, timing and permission denials from a result message
+   */
+  static normalizeResult(msg: ResultMessage, conversationId: string): ResultInfo {
+    return {
+      id: msg.uuid || this.generateId(),
+      conversationId,
+      sessionId: msg.session_id,
+      isError: msg.subtype === 'error' || Boolean(msg.is_error),
+      result: msg.result || '',
+      ...(msg.usage ? { usage: toUsage(msg.usage) } : {}),
+      ...(msg.total_cost_usd !== undefined || msg.modelUsage
+        ? { cost: this.normalizeCost(msg) }
+        : {}),
+      timing: {
+        durationMs: msg.duration_ms,
+        durationApiMs: msg.duration_api_ms,
+        numTurns: msg.num_turns,
+      },
+      permissionDenials: (msg.permission_denials || []).map((denial) => ({
+        toolName: denial.tool_name,
+        toolUseId: denial.tool_use_id,
+        toolInput: denial.tool_input,
+      })),
+    };
+  }
+
+  /**
+   * Extract media items from a media result message
+   */
+  static normalizeMedia(msg: MediaResultMessage, conversationId: string): MediaResultEvent {
+    return {
+      toolUseId: msg.tool_use_id,
+      conversationId: msg.conversation_id || conversationId,
+      items: toMediaItems(msg),
+    };
+  }
+
+  /**
+   * Map a tool permission request
+   */
+  static normalizePermissionRequest(
+    msg: PermissionRequestMessage,
+    conversationId: string
+  ): PermissionRequest {
+    return {
+      requestId: msg.request_id,
+      conversationId: msg.conversation_id || conversationId,
+      toolName: msg.tool_name,
+      toolUseId: msg.tool_use_id,
+      input: msg.tool_input ?? {},
+      ...(msg.reason ? { reason: msg.reason } : {}),
+      parentToolUseId: msg.parent_tool_use_id ?? null,
+    };
+  }
+
   /**
    * Parse assistant message (handles complex nested structure)
    */
   private static normalizeAssistantMessage(
     msg: RawAssistantMessage,
-    conversationId: string
+    conversationId: string,
+    logger: NamespacedLogger
   ): Message[] {
     const messages: AssistantMessage[] = [];
 
     // Check if content exists and is an array
     if (!msg.content || !Array.isArray(msg.content)) {
-      console.log('[SeaLink] Assistant message has no content array, might be tool_use or thinking only');
+      logger.debug('Assistant message has no content array, might be tool_use or thinking only');
       // If no content, return empty message list (not an error, just no text content)
       return messages;
     }
@@ -85,41 +244,47 @@ export class ProtocolNormalizer {
         .map((block) => ('text' in block ? block.text : ''))
         .join('\n');
 
+      // Thinking is kept apart from the visible answer
+      const thinking = thinkingBlocks
+        .map((block) => ('thinking' in block ? block.thinking : ''))
+        .join('\n');
+
       messages.push({
-        id: this.generateId(),
+        id: msg.uuid || this.generateId(),
         conversationId,
         role: 'assistant',
         content,
+        ...(thinking ? { thinking } : {}),
         createdAt: Date.now(),
       });
     } else if (thinkingBlocks.length > 0) {
       // If only thinking blocks, can also return as message (optional)
-      console.log('[SeaLink] Message only contains thinking blocks, skipping');
-    } else {
-      // Might be tool calls or other types of content
-      console.log('[SeaLink] Message contains non-text content:', msg.content.map(b => b.type));
+      logger.debug('Message only contains thinking blocks, skipping');
     }
 
-    // Check if there are media-related tool calls
-    // (Simplified handling here, actual implementation may need more complex logic)
+    // tool_use / tool_result blocks are surfaced via normalizeToolEvents
 
     return messages;
   }
 
   /**
-   * Parse media message
+   * Parse media message (media items are tied to the producing tool call)
    */
   private static normalizeMediaMessage(
     msg: MediaResultMessage,
     conversationId: string
   ): Message[] {
+    const media = this.normalizeMedia(msg, conversationId);
+
     return [
       {
         id: this.generateId(),
-        conversationId,
+        conversationId: media.conversationId,
         role: 'assistant',
-        content: 'Generated media file',
+        content: '',
         createdAt: Date.now(),
+        media: media.items,
+        toolUseId: media.toolUseId,
         raw: {
           media: msg.media,
         },
@@ -134,19 +299,28 @@ export class ProtocolNormalizer {
     msg: ResultMessage,
     conversationId: string
   ): Message[] {
+    const result = this.normalizeResult(msg, conversationId);
+
     // If error result, throw exception
-    if (msg.subtype === 'error' || msg.is_error) {
-      throw new Error(msg.result || 'Unknown error');
+    if (result.isError) {
+      throw new APIError(msg.result || 'Unknown error', 'RESULT_ERROR', undefined, {
+        session_id: msg.session_id,
+        uuid: msg.uuid,
+      });
     }
 
     // Return assistant message
     return [
       {
-        id: this.generateId(),
+        id: result.id,
         conversationId,
         role: 'assistant',
         content: msg.result,
         createdAt: Date.now(),
+        ...(result.usage ? { usage: result.usage } : {}),
+        ...(result.cost ? { cost: result.cost } : {}),
+        timing: result.timing,
+        permissionDenials: result.permissionDenials,
         raw: {
           usage: msg.usage,
           modelUsage: msg.modelUsage,
@@ -158,57 +332,55 @@ export class ProtocolNormalizer {
   }
 
   /**
-   * Generate message ID
+   * Map total and per-model cost
    */
-  private static generateId(): string {
-    return `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
-  }
-}
+  private static normalizeCost(msg: ResultMessage): Cost {
+    const byModel = msg.modelUsage
+      ? Object.fromEntries(
+          Object.entries(msg.modelUsage).map(([model, usage]) => [
+            model,
+            {
+              inputTokens: usage.inputTokens ?? 0,
+              outputTokens: usage.outputTokens ?? 0,
+              ...(usage.cacheCreationInputTokens !== undefined
+                ? { cacheCreationInputTokens: usage.cacheCreationInputTokens }
+                : {}),
+              ...(usage.cacheReadInputTokens !== undefined
+                ? { cacheReadInputTokens: usage.cacheReadInputTokens }
+                : {}),
+              ...(usage.costUSD !== undefined ? { costUsd: usage.costUSD } : {}),
+            },
+          ])
+        )
+      : undefined;
 
-/**
- * Stream message buffer
- */
-export class StreamBuffer {
-  private buffer: Map<string, string> = new Map();
-
-  /**
-   * Start new stream message
-   */
-  start(conversationId: string): void {
-    const key = this.getKey(conversationId);
-    this.buffer.set(key, '');
-  }
+    const totalUsd =
+      msg.total_cost_usd ??
+      Object.values(byModel || {}).reduce((sum, usage) => sum + (usage.costUsd ?? 0), 0);
 
-  /**
-   * Add incremental content
-   */
-  append(conversationId: string, chunk: string): string {
-    const key = this.getKey(conversationId);
-    const current = this.buffer.get(key) || '';
-    const updated = current + chunk;
-    this.buffer.set(key, updated);
-    return updated;
+    return { totalUsd, ...(byModel ? { byModel } : {}) };
   }
 
   /**
-   * Get complete content and clear buffer
-   */
-  complete(conversationId: string): string {
-    const key = this.getKey(conversationId);
-    const content = this.buffer.get(key) || '';
-    this.buffer.delete(key);
-    return content;
-  }
-
-  /**
-   * Get current content (without clearing)
+   * Generate message ID
    */
-  get(conversationId: string): string {
-    const key = this.getKey(conversationId);
-    return this.buffer.get(key) || '';
+  private static generateId(): string {
+    return `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
   }
+}
 
-  private getKey(conversationId: string): string {
-    return `${conversationId}_streaming`;
-  }
+/**
+ * Convert protocol usage to public usage (missing token counts become 0)
+ */
+export function toUsage(usage: UsageData): Usage {
+  return {
+    input_tokens: usage.input_tokens ?? 0,
+    output_tokens: usage.output_tokens ?? 0,
+    ...(usage.cache_creation_input_tokens !== undefined
+      ? { cache_creation_input_tokens: usage.cache_creation_input_tokens }
+      : {}),
+    ...(usage.cache_read_input_tokens !== undefined
+      ? { cache_read_input_tokens: usage.cache_read_input_tokens }
+      : {}),
+  };
 }
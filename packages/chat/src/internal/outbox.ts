@@ -0,0 +1,203 @@
+/**
+ * Outbox - delivery tracking and offline queue for user messages
+ *
+ * @internal SDK internal use
+ */
+
+import type {
+  ConnectionState,
+  MessageStatus,
+  MessageStatusCallback,
+  UserMessage,
+} from '../types';
+import type { AttachmentData, ServerMessage } from './protocol';
+import type { WebSocketTransport } from './transport';
+import type { TurnContext } from './correlation';
+import { ConnectionError } from '../errors';
+import { silentLogger, type NamespacedLogger } from './logger';
+
+/**
+ * Outbound message entry
+ */
+interface OutboxEntry {
+  message: UserMessage;
+  attachments?: AttachmentData[];
+  /** Written to the socket, waiting for acknowledgement */
+  inFlight: boolean;
+}
+
+/**
+ * Server frames that count as a response to the message of their turn
+ */
+const RESPONSE_FRAME_TYPES: ServerMessage['type'][] = [
+  'stream_event',
+  'assistant',
+  'result',
+  'media_result',
+];
+
+/**
+ * Outbox
+ *
+ * Tracks user messages from `pending` to `sent` (server `message_ack`, or the
+ * first response frame of the message's turn) or `failed` (send error, a server
+ * error naming the message, or a disconnect). There is no ack timeout: a slow
+ * reply still marks the message `sent` when it arrives.
+ * With `queueOfflineMessages`, messages sent while disconnected — and
+ * unacknowledged messages interrupted by a disconnect — stay queued and are
+ * sent again with the same idempotency key after (re)connecting.
+ */
+export class Outbox {
+  private entries: OutboxEntry[] = [];
+  private listeners: Array<{ id: number; callback: MessageStatusCallback }> = [];
+  private nextListenerId: number = 1;
+
+  constructor(
+    private transport: WebSocketTransport,
+    private queueOfflineMessages: boolean,
+    private logger: NamespacedLogger = silentLogger
+  ) {
+    transport.onFrame((frame, context) => this.handleFrame(frame, context));
+    transport.onStateChange((state) => this.handleStateChange(state));
+  }
+
+  /**
+   * Send (or queue) a user message
+   *
+   * @throws ConnectionError when disconnected and offline queueing is disabled
+   */
+  send(message: UserMessage, attachments?: AttachmentData[]): UserMessage {
+    const entry: OutboxEntry = {
+      message: { ...message, status: 'pending' },
+      attachments,
+      inFlight: false,
+    };
+
+    if (!this.transport.isConnected()) {
+      if (!this.queueOfflineMessages) {
+        throw new ConnectionError('WebSocket not connected', {
+          clientMessageId: message.clientMessageId,
+        });
+      }
+
+      this.entries.push(entry);
+      return entry.message;
+    }
+
+    this.entries.push(entry);
+    this.write(entry);
+    return entry.message;
+  }
+
+  /**
+   * Drop a message that has not been written to the socket yet (it becomes `failed`)
+   *
+   * @returns Whether the message was dropped
+   */
+  cancel(clientMessageId: string): boolean {
+    const entry = this.entries.find((e) => !e.inFlight && e.message.clientMessageId === clientMessageId);
+    if (!entry) return false;
+
+    this.settle(entry, 'failed');
+    return true;
+  }
+
+  /**
+   * Listen for message status changes
+   * @returns Unsubscribe function
+   */
+  onStatusChange(callback: MessageStatusCallback): () => void {
+    const id = this.nextListenerId++;
+    this.listeners.push({ id, callback });
+
+    return () => {
+      this.listeners = this.listeners.filter((listener) => listener.id !== id);
+    };
+  }
+
+  /**
+   * Write an entry to the socket
+   */
+  private write(entry: OutboxEntry): void {
+    try {
+      this.transport.sendUserMessage(
+        entry.message.conversationId,
+        entry.message.content,
+        entry.attachments,
+        entry.message.clientMessageId
+      );
+    } catch (error) {
+      if (this.queueOfflineMessages) {
+        // Stay queued until the next reconnect
+        return;
+      }
+      this.settle(entry, 'failed');
+      return;
+    }
+
+    entry.inFlight = true;
+    this.logger.debug('Message sent, waiting for response:', entry.message.clientMessageId);
+  }
+
+  /**
+   * Handle server frames (acknowledgements, responses, errors)
+   */
+  private handleFrame(frame: ServerMessage, context: TurnContext): void {
+    if (frame.type === 'message_ack') {
+      const entry = this.entries.find(
+        (e) => e.message.clientMessageId === frame.client_message_id
+      );
+      if (entry) this.settle(entry, 'sent');
+      return;
+    }
+
+    // Only errors that name the message fail it; other errors are not about delivery
+    if (frame.type === 'error') {
+      const entry = frame.client_message_id
+        ? this.entries.find((e) => e.message.clientMessageId === frame.client_message_id)
+        : undefined;
+      if (entry) this.settle(entry, 'failed');
+      return;
+    }
+
+    if (!RESPONSE_FRAME_TYPES.includes(frame.type)) return;
+
+    const entry = this.entries.find((e) => e.inFlight && e.message.clientMessageId === context.turnId);
+    if (entry) this.settle(entry, 'sent');
+  }
+
+  /**
+   * Flush the queue on (re)connect; re-queue or fail unacknowledged messages on disconnect
+   */
+  private handleStateChange(state: ConnectionState): void {
+    if (state === 'open') {
+      this.entries
+        .filter((entry) => !entry.inFlight)
+        .forEach((entry) => this.write(entry));
+      return;
+    }
+
+    if (state === 'reconnecting' || state === 'closed') {
+      [...this.entries].forEach((entry) => {
+        if (this.queueOfflineMessages) {
+          // Keep queued messages (and re-queue in-flight ones) for the next connection
+          entry.inFlight = false;
+        } else {
+          this.settle(entry, 'failed');
+        }
+      });
+    }
+  }
+
+  /**
+   * Set final status, remove the entry and notify listeners
+   */
+  private settle(entry: OutboxEntry, status: Exclude<MessageStatus, 'pending'>): void {
+    this.entries = this.entries.filter((e) => e !== entry);
+
+    const message: UserMessage = { ...entry.message, status };
+    this.listeners.forEach((listener) => {
+      listener.callback(message);
+    });
+  }
+}
@@ -16,7 +16,9 @@ export type ClientMessage =
   | InitSessionMessage
   | UserMessageProtocol
   | InterruptMessage
-  | HeartbeatMessage;
+  | HeartbeatMessage
+  | PermissionResponseMessage
+  | UpdateSessionMessage;
 
 /**
  * Session configuration
@@ -45,6 +47,8 @@ export interface InitSessionMessage {
 export interface UserMessageProtocol {
   type: 'user';
   conversation_id: string;
+  /** Client-generated idempotency key */
+  client_message_id?: string;
   message: {
     content: string;
     attachments?: AttachmentData[];
@@ -67,6 +71,7 @@ export interface AttachmentData {
  */
 export interface InterruptMessage {
   type: 'interrupt';
+  conversation_id?: string;
 }
 
 /**
@@ -74,6 +79,29 @@ export interface InterruptMessage {
  */
 export interface HeartbeatMessage {
   type: 'heartbeat';
+  /** Send time (ms), echoed by servers that answer with a pong */
+  timestamp?: number;
+}
+
+/**
+ * Update session configuration (answered with a `system` message, subtype `update`)
+ */
+export interface UpdateSessionMessage {
+  type: 'update_session';
+  conversation_id: string;
+  config: Partial<SessionConfig>;
+}
+
+/**
+ * Answer to a tool permission request
+ */
+export interface PermissionResponseMessage {
+  type: 'permission_response';
+  request_id: string;
+  tool_use_id: string;
+  decision: 'allow' | 'deny';
+  /** Reason shown to the agent when denied */
+  message?: string;
 }
 
 // ==========================================
@@ -85,6 +113,9 @@ export interface HeartbeatMessage {
  */
 export type ServerMessage =
   | SessionInitializedMessage
+  | MessageAckMessage
+  | PongMessage
+  | PermissionRequestMessage
   | ErrorMessage
   | MediaResultMessage
   | AssistantMessageProtocol
@@ -103,14 +134,54 @@ export interface SessionInitializedMessage {
   is_processing?: boolean;
 }
 
+/**
+ * User message acknowledged by server
+ */
+export interface MessageAckMessage {
+  type: 'message_ack';
+  client_message_id: string;
+  message_id?: string;
+  conversation_id?: string;
+}
+
+/**
+ * Heartbeat answer
+ */
+export interface PongMessage {
+  type: 'pong' | 'heartbeat_ack';
+  /** Echoed heartbeat timestamp */
+  timestamp?: number;
+}
+
+/**
+ * Tool permission request (answered with `permission_response`)
+ */
+export interface PermissionRequestMessage {
+  type: 'permission_request';
+  request_id: string;
+  tool_name: string;
+  tool_use_id: string;
+  tool_input?: unknown;
+  /** Why the runtime asks (e.g. permission mode requires confirmation) */
+  reason?: string;
+  conversation_id?: string;
+  session_id?: string;
+  parent_tool_use_id?: string | null;
+  /** Echoed client message ID (servers that support turn correlation) */
+  client_message_id?: string;
+}
+
 /**
  * Error message
  */
 export interface ErrorMessage {
   type: 'error';
+  /** Echoed client message ID (servers that support turn correlation) */
+  client_message_id?: string;
   error: string;
   code?: string;
   details?: Record<string, unknown>;
+  conversation_id?: string;
 }
 
 /**
@@ -118,6 +189,8 @@ export interface ErrorMessage {
  */
 export interface MediaResultMessage {
   type: 'media_result';
+  /** Echoed client message ID (servers that support turn correlation) */
+  client_message_id?: string;
   tool_use_id: string;
   media: {
     images: string[];
@@ -132,7 +205,13 @@ export interface MediaResultMessage {
  */
 export interface AssistantMessageProtocol {
   type: 'assistant';
+  /** Echoed client message ID (servers that support turn correlation) */
+  client_message_id?: string;
   content: ContentBlock[];
+  session_id?: string;
+  uuid?: string;
+  parent_tool_use_id?: string | null;
+  conversation_id?: string;
 }
 
 /**
@@ -142,22 +221,76 @@ export type ContentBlock =
   | { type: 'text'; text: string }
   | { type: 'thinking'; thinking: string }
   | { type: 'tool_use'; id: string; name: string; input: unknown }
-  | { type: 'tool_result'; tool_use_id: string; content: string };
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+/**
+ * Token usage (protocol layer)
+ */
+export interface UsageData {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  [key: string]: any;
+}
+
+/**
+ * Per-model usage (result message)
+ */
+export interface ModelUsageData {
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadInputTokens?: number;
+  cacheCreationInputTokens?: number;
+  costUSD?: number;
+  [key: string]: any;
+}
+
+/**
+ * Denied tool call (result message)
+ */
+export interface PermissionDenialData {
+  tool_name: string;
+  tool_use_id: string;
+  tool_input?: unknown;
+}
 
 /**
  * Stream event content block
  */
 export interface StreamEventBlock {
-  type: 'content_block_start' | 'content_block_delta' | 'content_block_stop';
+  type:
+    | 'message_start'
+    | 'message_delta'
+    | 'message_stop'
+    | 'content_block_start'
+    | 'content_block_delta'
+    | 'content_block_stop';
   index?: number;
+  /** message_start only */
+  message?: {
+    id?: string;
+    model?: string;
+    stop_reason?: string | null;
+    usage?: UsageData;
+  };
+  /** content_block_delta: content delta; message_delta: stop reason */
   delta?: {
-    type: 'text_delta' | 'thinking_delta';
+    type?: 'text_delta' | 'thinking_delta' | 'input_json_delta';
     text?: string;
     thinking?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+    stop_sequence?: string | null;
   };
+  /** message_delta only (cumulative) */
+  usage?: UsageData;
   content_block?: {
     type: string;
     text?: string;
+    id?: string;
+    name?: string;
+    input?: unknown;
   };
 }
 
@@ -166,9 +299,12 @@ export interface StreamEventBlock {
  */
 export interface StreamEventMessage {
   type: 'stream_event';
+  /** Echoed client message ID (servers that support turn correlation) */
+  client_message_id?: string;
   event: StreamEventBlock;
   session_id?: string;
   uuid?: string;
+  conversation_id?: string;
   created_at?: number;
   parent_tool_use_id?: string | null;
 }
@@ -178,6 +314,8 @@ export interface StreamEventMessage {
  */
 export interface ResultMessage {
   type: 'result';
+  /** Echoed client message ID (servers that support turn correlation) */
+  client_message_id?: string;
   subtype: 'success' | 'error';
   result: string;
   session_id: string;
@@ -186,16 +324,11 @@ export interface ResultMessage {
   duration_ms?: number;
   duration_api_ms?: number;
   is_error?: boolean;
-  usage?: {
-    input_tokens?: number;
-    output_tokens?: number;
-    cache_creation_input_tokens?: number;
-    cache_read_input_tokens?: number;
-    [key: string]: any;
-  };
-  modelUsage?: Record<string, any>;
+  usage?: UsageData;
+  modelUsage?: Record<string, ModelUsageData>;
   total_cost_usd?: number;
-  permission_denials?: any[];
+  permission_denials?: PermissionDenialData[];
+  conversation_id?: string;
 }
 
 /**
@@ -206,6 +339,7 @@ export interface SystemMessage {
   subtype: 'init' | 'update';
   session_id: string;
   uuid: string;
+  conversation_id?: string;
   model?: string;
   seaverse_version?: string;
   cwd?: string;
@@ -7,24 +7,105 @@
 import type {
   MessageCallback,
   StreamCallbacks,
-  AssistantMessage,
   SessionConfig,
   RetryConfig,
+  ConnectionState,
+  ConnectionStateCallback,
+  HeartbeatConfig,
+  ToolUseEvent,
+  ToolResultEvent,
+  SessionInfo,
+  SessionUsage,
+  SystemInfo,
+  ResultInfo,
+  PermissionDecision,
+  PermissionRequestHandler,
+  WebSocketFactory,
+  WebSocketFactoryOptions,
+  WebSocketLike,
 } from '../types';
 import type {
+  AttachmentData,
   ClientMessage,
+  ErrorMessage,
+  PermissionRequestMessage,
+  ResultMessage,
   ServerMessage,
+  SessionInitializedMessage,
   StreamEventMessage,
   SystemMessage,
 } from './protocol';
-import { ProtocolNormalizer, StreamBuffer } from './normalizer';
+import { ProtocolNormalizer } from './normalizer';
+import { StreamAssembler, type StreamUpdate } from './assembler';
+import { TurnTracker, withTurnContext, type TurnContext } from './correlation';
+import { silentLogger, type NamespacedLogger } from './logger';
 import {
+  ChatError,
   ConnectionError,
   ConnectionTimeoutError,
   ParseError,
+  SessionError,
   StreamError,
 } from '../errors';
 
+/**
+ * WebSocket readyState: OPEN / CLOSING（不依赖全局 WebSocket 常量）
+ */
+const WS_OPEN = 1;
+const WS_CLOSING = 2;
+
+/**
+ * 心跳超时主动关闭连接时使用的关闭码（共享连接据此回收底层 socket）
+ */
+export const STALE_CLOSE_CODE = 4000;
+
+/**
+ * 传输层配置
+ */
+export interface TransportOptions {
+  /** 连接超时（毫秒） */
+  timeout?: number;
+  /** 默认会话配置 */
+  sessionConfig?: SessionConfig;
+  /** 重试配置 */
+  retry?: RetryConfig;
+  /** 意外断开后自动重连 */
+  autoReconnect?: boolean;
+  /** 心跳与存活检测 */
+  heartbeat?: HeartbeatConfig;
+  /** 日志 */
+  logger?: NamespacedLogger;
+  /** 自定义 WebSocket 实现 */
+  webSocketFactory?: WebSocketFactory;
+  /** 传给 WebSocket 实现的连接选项（认证 header / subprotocol） */
+  socketOptions?: WebSocketFactoryOptions;
+}
+
+/**
+ * 默认 WebSocket 实现：全局 WebSocket（浏览器 / Node.js 22+）
+ *
+ * 浏览器原生 WebSocket 不支持自定义 header，headers 会被忽略
+ */
+export const defaultWebSocketFactory: WebSocketFactory = (url, options) => {
+  if (typeof WebSocket === 'undefined') {
+    throw new ConnectionError(
+      'No global WebSocket available; pass webSocketFactory (e.g. the ws package) in ChatConfig'
+    );
+  }
+  return new WebSocket(url, options.protocols) as unknown as WebSocketLike;
+};
+
+/**
+ * 将 WebSocket 消息数据转为字符串（兼容 ws 的 Buffer / ArrayBuffer）
+ */
+export function toText(data: unknown): string {
+  if (typeof data === 'string') return data;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+    return new TextDecoder().decode(data as ArrayBuffer);
+  }
+  return String(data);
+}
+
 /**
  * 监听器条目
  */
@@ -34,32 +115,123 @@ interface ListenerEntry {
   streamCallbacks?: StreamCallbacks;
 }
 
+/**
+ * 会话恢复所需的连接参数
+ */
+interface SessionParams {
+  conversationId: string;
+  appId: string;
+  sessionConfig?: SessionConfig;
+}
+
+/**
+ * 等待 session_initialized 的连接尝试
+ */
+interface PendingInit {
+  resolve: (info: SessionInfo) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 等待 system update 的会话配置更新
+ */
+interface PendingUpdate {
+  resolve: (info: SystemInfo) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 原始服务端消息回调（附带轮次关联信息）
+ */
+export type FrameCallback = (message: ServerMessage, context: TurnContext) => void;
+
+/**
+ * 连接状态监听器条目
+ */
+interface StateListenerEntry {
+  id: number;
+  callback: ConnectionStateCallback;
+}
+
 /**
  * WebSocket 传输层
  */
 export class WebSocketTransport {
-  private ws: WebSocket | null = null;
+  private ws: WebSocketLike | null = null;
   private listeners: ListenerEntry[] = [];
+  private stateListeners: StateListenerEntry[] = [];
+  private frameListeners: Array<{ id: number; callback: FrameCallback }> = [];
   private nextListenerId: number = 1;
-  private streamBuffer = new StreamBuffer();
+  private streamAssembler = new StreamAssembler();
+  private turnTracker = new TurnTracker();
   private conversationId: string = '';
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
-  private heartbeatInterval: number = 30000; // 30秒心跳间隔
+  private heartbeatInterval: number;
+  private heartbeatTimeout: number;
+  private livenessTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatSentAt: number | null = null;
+  private lastFrameAt: number | null = null;
+  private latency: number | null = null;
   private retryConfig: Required<RetryConfig>;
+  private timeout: number;
+  private defaultSessionConfig?: SessionConfig;
+  private autoReconnect: boolean;
+  private webSocketFactory: WebSocketFactory;
+  private socketOptions: WebSocketFactoryOptions;
   private currentRetry: number = 0;
+  private state: ConnectionState = 'closed';
+  private sessionParams: SessionParams | null = null;
+  private lastMessageCreatedAt?: number;
+  private manualClose: boolean = false;
+  // 每次 connect()/disconnect() 递增：旧的连接与重连循环据此退出
+  private connectGeneration: number = 0;
+  private reconnecting: boolean = false;
+  // 当前轮次已通知的 tool use ID（轮次结束或断开时清空）
+  private emittedToolUseIds: Set<string> = new Set();
+  private pendingInit: PendingInit | null = null;
+  private sessionInfo: SessionInfo | null = null;
+  private permissionHandler: PermissionRequestHandler | null = null;
+  private logger: NamespacedLogger;
+  private normalizerLogger: NamespacedLogger;
+  private systemInfo: SystemInfo | null = null;
+  private pendingUpdate: PendingUpdate | null = null;
+  private sessionUsage: SessionUsage = {
+    usage: {
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+    },
+    totalCostUsd: 0,
+    durationMs: 0,
+    durationApiMs: 0,
+    numTurns: 0,
+    results: 0,
+  };
 
   constructor(
     private wsURL: string,
-    private timeout: number = 30000,
-    private defaultSessionConfig?: SessionConfig,
-    retryConfig?: RetryConfig
+    options: TransportOptions = {}
   ) {
+    const retryConfig = options.retry;
+    this.timeout = options.timeout ?? 30000;
+    this.defaultSessionConfig = options.sessionConfig;
+    this.autoReconnect = options.autoReconnect ?? true;
+    this.heartbeatInterval = options.heartbeat?.interval ?? 30000; // 30秒心跳间隔
+    this.heartbeatTimeout = options.heartbeat?.timeout ?? 10000;
+    this.webSocketFactory = options.webSocketFactory || defaultWebSocketFactory;
+    this.socketOptions = options.socketOptions || {};
+    this.logger = options.logger || silentLogger;
+    this.normalizerLogger = this.logger.child('normalizer');
+
     // 合并重试配置
     this.retryConfig = {
       maxRetries: retryConfig?.maxRetries ?? 2,
       initialDelay: retryConfig?.initialDelay ?? 1000,
       maxDelay: retryConfig?.maxDelay ?? 60000,
       backoffMultiplier: retryConfig?.backoffMultiplier ?? 2,
+      maxReconnectAttempts: retryConfig?.maxReconnectAttempts ?? 10,
     };
   }
 
@@ -71,40 +243,55 @@ export class WebSocketTransport {
     appId: string,
     sessionConfig?: SessionConfig,
     lastMessageCreatedAt?: number
-  ): Promise<void> {
+  ): Promise<SessionInfo> {
+    const generation = ++this.connectGeneration;
     this.conversationId = conversationId;
     this.currentRetry = 0;
+    this.manualClose = false;
+    this.sessionParams = { conversationId, appId, sessionConfig };
+    this.lastMessageCreatedAt = lastMessageCreatedAt;
+    this.setState('connecting');
 
     while (this.currentRetry <= this.retryConfig.maxRetries) {
       try {
-        await this.attemptConnect(conversationId, appId, sessionConfig, lastMessageCreatedAt);
-        return; // 连接成功，退出重试循环
+        // 连接成功（会话已初始化），退出重试循环
+        return await this.attemptConnect(conversationId, appId, sessionConfig, lastMessageCreatedAt);
       } catch (error) {
+        // 已被新的 connect()/disconnect() 取代：放弃重试，不改变连接状态
+        if (generation !== this.connectGeneration) throw error;
+
         const isLastAttempt = this.currentRetry >= this.retryConfig.maxRetries;
 
-        if (isLastAttempt) {
-          // 最后一次尝试失败，抛出错误
-          console.error('[SeaLink] All connection attempts failed');
+        // 会话初始化失败（服务端拒绝）不重试
+        if (isLastAttempt || this.manualClose || error instanceof SessionError) {
+          // 最后一次尝试失败（或已主动断开），抛出错误
+          this.logger.error('All connection attempts failed');
+          this.setState('closed');
           throw error;
         }
 
         // 计算退避延迟
         const delay = this.getRetryDelay(this.currentRetry);
-        console.log(`[SeaLink] Connection failed (attempt ${this.currentRetry + 1}/${this.retryConfig.maxRetries + 1}), retrying in ${delay}ms...`);
+        this.logger.info(`Connection failed (attempt ${this.currentRetry + 1}/${this.retryConfig.maxRetries + 1}), retrying in ${delay}ms...`);
 
         // 等待后重试
         await this.sleep(delay);
+        if (generation !== this.connectGeneration) {
+          throw new ConnectionError('Connection attempt cancelled');
+        }
         this.currentRetry++;
       }
     }
+
+    throw new ConnectionError('All connection attempts failed');
   }
 
   /**
    * 发送消息
    */
   send(message: ClientMessage): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      throw new Error('WebSocket not connected');
+    if (!this.ws || this.ws.readyState !== WS_OPEN) {
+      throw new ConnectionError('WebSocket not connected');
     }
 
     this.ws.send(JSON.stringify(message));
@@ -113,14 +300,26 @@ export class WebSocketTransport {
   /**
    * 发送用户消息
    */
-  sendUserMessage(conversationId: string, content: string): void {
+  sendUserMessage(
+    conversationId: string,
+    content: string,
+    attachments?: AttachmentData[],
+    clientMessageId?: string
+  ): void {
     this.send({
       type: 'user',
       conversation_id: conversationId,
+      ...(clientMessageId ? { client_message_id: clientMessageId } : {}),
       message: {
         content,
+        ...(attachments && attachments.length > 0 ? { attachments } : {}),
       },
     });
+
+    // 后续服务端消息按顺序归属到该轮次
+    if (clientMessageId) {
+      this.turnTracker.begin(clientMessageId);
+    }
   }
 
   /**
@@ -129,7 +328,78 @@ export class WebSocketTransport {
   interrupt(): void {
     this.send({
       type: 'interrupt',
+      ...(this.conversationId ? { conversation_id: this.conversationId } : {}),
     });
+    this.turnTracker.interrupt();
+  }
+
+  /**
+   * 中断指定轮次
+   *
+   * 正在执行时立即发送 interrupt；已发送但排在其他轮次之后时，等它开始执行再中断。
+   *
+   * @returns 轮次尚未发送时返回 false（由调用方在本地取消）
+   */
+  interruptTurn(turnId: string): boolean {
+    const state = this.turnTracker.abort(turnId);
+
+    if (state === 'running') {
+      this.interrupt();
+    }
+    return state !== 'unknown';
+  }
+
+  /**
+   * 运行时更新会话配置（不断开连接），服务端以 system update 消息确认
+   *
+   * 新配置同时用于之后的断线重连
+   */
+  updateSession(config: SessionConfig): Promise<SystemInfo> {
+    if (this.pendingUpdate) {
+      return Promise.reject(new SessionError('Session update already in progress'));
+    }
+
+    this.send({
+      type: 'update_session',
+      conversation_id: this.conversationId,
+      config,
+    });
+
+    if (this.sessionParams) {
+      this.sessionParams.sessionConfig = { ...this.sessionParams.sessionConfig, ...config };
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingUpdate = null;
+        const error = new SessionError('Session update not confirmed in time', { timeout: this.timeout });
+        error.code = 'SESSION_UPDATE_TIMEOUT';
+        reject(error);
+      }, this.timeout);
+
+      this.pendingUpdate = { resolve, reject, timer };
+    });
+  }
+
+  /**
+   * 获取最新的系统信息（收到 system 消息后可用）
+   */
+  getSystemInfo(): SystemInfo | null {
+    return this.systemInfo;
+  }
+
+  /**
+   * 设置工具权限请求处理器（null 表示移除，未设置时一律拒绝）
+   */
+  setPermissionHandler(handler: PermissionRequestHandler | null): void {
+    this.permissionHandler = handler;
+  }
+
+  /**
+   * 获取当前工具权限请求处理器
+   */
+  getPermissionHandler(): PermissionRequestHandler | null {
+    return this.permissionHandler;
   }
 
   /**
@@ -153,6 +423,89 @@ export class WebSocketTransport {
     };
   }
 
+  /**
+   * 注册原始服务端消息回调（在消息被解析分发之前调用）
+   * @returns 取消订阅函数
+   */
+  onFrame(callback: FrameCallback): () => void {
+    const id = this.nextListenerId++;
+    this.frameListeners.push({ id, callback });
+
+    return () => {
+      this.frameListeners = this.frameListeners.filter((listener) => listener.id !== id);
+    };
+  }
+
+  /**
+   * 注册连接状态回调
+   * @returns 取消订阅函数
+   */
+  onStateChange(callback: ConnectionStateCallback): () => void {
+    const id = this.nextListenerId++;
+    this.stateListeners.push({ id, callback });
+
+    return () => {
+      this.stateListeners = this.stateListeners.filter((listener) => listener.id !== id);
+    };
+  }
+
+  /**
+   * 获取会话信息（会话初始化后可用）
+   */
+  getSessionInfo(): SessionInfo | null {
+    return this.sessionInfo;
+  }
+
+  /**
+   * 获取会话累计用量（副本）
+   */
+  getUsage(): SessionUsage {
+    return {
+      ...this.sessionUsage,
+      usage: { ...this.sessionUsage.usage },
+    };
+  }
+
+  /**
+   * 获取最近一次心跳往返延迟（毫秒，服务端未回复 pong 时为 null）
+   */
+  getLatency(): number | null {
+    return this.latency;
+  }
+
+  /**
+   * 获取最近一次收到服务端消息的时间
+   */
+  getLastFrameAt(): number | null {
+    return this.lastFrameAt;
+  }
+
+  /**
+   * 获取当前连接状态
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * 更新连接状态并通知监听器
+   */
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+
+    this.state = state;
+    this.logger.info('Connection state:', state);
+
+    // 连接中断时，未确认的会话更新失败
+    if (state === 'reconnecting' || state === 'closed') {
+      this.settleUpdate(null, new ConnectionError('Connection lost before session update was confirmed'));
+    }
+
+    this.stateListeners.forEach((listener) => {
+      listener.callback(state);
+    });
+  }
+
   /**
    * 处理接收到的消息
    */
@@ -160,11 +513,49 @@ export class WebSocketTransport {
     try {
       const serverMsg: ServerMessage = JSON.parse(data);
 
-      console.log('[SeaLink] Received message:', serverMsg);
+      // 心跳回复：计算往返延迟
+      if (serverMsg.type === 'pong' || serverMsg.type === 'heartbeat_ack') {
+        const sentAt = serverMsg.timestamp ?? this.heartbeatSentAt;
+        if (sentAt !== null) {
+          this.latency = Date.now() - sentAt;
+        }
+        return;
+      }
+
+      this.logger.debug('Received message:', serverMsg);
+
+      // 记录最新消息时间，用于断线重连后恢复会话
+      if ('created_at' in serverMsg && typeof serverMsg.created_at === 'number') {
+        this.lastMessageCreatedAt = Math.max(this.lastMessageCreatedAt ?? 0, serverMsg.created_at);
+      }
+
+      // 关联到触发该消息的用户消息（轮次）；未标记的错误在会话请求等待期间归属该请求
+      const context = this.turnTracker.resolve(serverMsg, this.pendingInit !== null || this.pendingUpdate !== null);
+
+      // 排队时被取消的轮次开始执行：立即中断
+      if ((serverMsg.type === 'result' || serverMsg.type === 'error') && this.turnTracker.takeDeferred()) {
+        this.interrupt();
+      }
+
+      this.frameListeners.forEach((listener) => {
+        listener.callback(serverMsg, context);
+      });
+
+      // 处理会话初始化
+      if (serverMsg.type === 'session_initialized') {
+        this.handleSessionInitialized(serverMsg);
+        return;
+      }
+
+      // 处理服务端错误
+      if (serverMsg.type === 'error') {
+        this.handleServerError(serverMsg);
+        return;
+      }
 
       // 处理流式事件
       if (serverMsg.type === 'stream_event') {
-        this.handleStreamEvent(serverMsg);
+        this.handleStreamEvent(serverMsg, context);
         return;
       }
 
@@ -174,24 +565,58 @@ export class WebSocketTransport {
         return;
       }
 
+      // 处理工具权限请求
+      if (serverMsg.type === 'permission_request') {
+        this.handlePermissionRequest(serverMsg, context);
+        return;
+      }
+
+      // 处理媒体结果（关联到产生它的工具调用）
+      if (serverMsg.type === 'media_result') {
+        const media = withTurnContext(
+          ProtocolNormalizer.normalizeMedia(serverMsg, this.conversationId),
+          context
+        );
+        this.listeners.forEach((listener) => {
+          listener.streamCallbacks?.onMedia?.(media);
+        });
+      }
+
+      // 处理轮次结果（用量、费用、耗时）
+      if (serverMsg.type === 'result') {
+        this.handleResult(serverMsg, context);
+      }
+
+      // 处理工具调用和工具结果
+      if (serverMsg.type === 'assistant') {
+        const { toolUses, toolResults } = ProtocolNormalizer.normalizeToolEvents(
+          serverMsg,
+          this.conversationId
+        );
+        toolUses.forEach((toolUse) => this.emitToolUse(withTurnContext(toolUse, context)));
+        toolResults.forEach((toolResult) => this.emitToolResult(withTurnContext(toolResult, context)));
+      }
+
       // 处理普通消息
       const messages = ProtocolNormalizer.normalize(
         serverMsg,
-        this.conversationId
+        this.conversationId,
+        this.normalizerLogger
       );
 
       messages.forEach((msg) => {
+        const message = withTurnContext(msg, context);
+
         // 通知所有监听器
         this.listeners.forEach((listener) => {
-          listener.callback(msg);
+          listener.callback(message);
         });
       });
     } catch (error) {
-      console.error('[SeaLink] Failed to parse message:', error);
-      console.error('[SeaLink] Raw message data:', data);
+      this.logger.error('Failed to parse message:', error, { rawData: data });
 
-      // 使用具体的错误类型
-      const parseError = error instanceof ParseError
+      // 使用具体的错误类型（SDK 错误保持原样）
+      const parseError = error instanceof ChatError
         ? error
         : new ParseError(
             error instanceof Error ? error.message : 'Failed to parse server message',
@@ -205,93 +630,218 @@ export class WebSocketTransport {
     }
   }
 
+  /**
+   * 处理会话初始化完成
+   */
+  private handleSessionInitialized(msg: SessionInitializedMessage): void {
+    const sessionInfo: SessionInfo = {
+      conversationId: msg.conversation_id,
+      appId: msg.app_id,
+      backend: msg.backend,
+      isProcessing: msg.is_processing ?? false,
+    };
+    this.sessionInfo = sessionInfo;
+
+    this.logger.info('Session initialized:', sessionInfo);
+
+    // 完成正在等待的连接尝试
+    const pendingInit = this.pendingInit;
+    this.pendingInit = null;
+    pendingInit?.resolve(sessionInfo);
+
+    this.listeners.forEach((listener) => {
+      listener.streamCallbacks?.onSessionInitialized?.(sessionInfo);
+    });
+  }
+
+  /**
+   * 处理服务端错误
+   */
+  private handleServerError(msg: ErrorMessage): void {
+    const error = ProtocolNormalizer.normalizeError(msg);
+
+    // 会话更新被拒绝
+    if (this.pendingUpdate) {
+      this.settleUpdate(null, error);
+      return;
+    }
+
+    // 会话初始化阶段的错误：连接失败
+    if (this.pendingInit) {
+      const pendingInit = this.pendingInit;
+      this.pendingInit = null;
+
+      const sessionError = error instanceof SessionError
+        ? error
+        : new SessionError(error.message, { ...error.details, serverCode: error.code });
+      pendingInit.reject(sessionError);
+      return;
+    }
+
+    this.logger.error('Server error:', error);
+
+    this.listeners.forEach((listener) => {
+      listener.streamCallbacks?.onError?.(error);
+    });
+  }
+
+  /**
+   * 处理轮次结果：累计会话用量并通知监听器（错误结果同样计费）
+   */
+  private handleResult(msg: ResultMessage, context: TurnContext): void {
+    const result: ResultInfo = {
+      ...ProtocolNormalizer.normalizeResult(msg, this.conversationId),
+      ...(context.turnId ? { turnId: context.turnId } : {}),
+    };
+
+    const total = this.sessionUsage;
+    total.usage.input_tokens += result.usage?.input_tokens ?? 0;
+    total.usage.output_tokens += result.usage?.output_tokens ?? 0;
+    total.usage.cache_creation_input_tokens += result.usage?.cache_creation_input_tokens ?? 0;
+    total.usage.cache_read_input_tokens += result.usage?.cache_read_input_tokens ?? 0;
+    total.totalCostUsd += result.cost?.totalUsd ?? 0;
+    total.durationMs += result.timing.durationMs ?? 0;
+    total.durationApiMs += result.timing.durationApiMs ?? 0;
+    total.numTurns += result.timing.numTurns ?? 0;
+    total.results += 1;
+
+    // 轮次结束，之后不会再收到本轮的工具调用
+    this.emittedToolUseIds.clear();
+
+    this.listeners.forEach((listener) => {
+      listener.streamCallbacks?.onResult?.(result);
+      result.permissionDenials.forEach((denial) => {
+        listener.streamCallbacks?.onPermissionDenial?.(denial, result);
+      });
+    });
+  }
+
+  /**
+   * 处理工具权限请求：询问处理器并回复服务端（无处理器或处理器出错时拒绝）
+   */
+  private async handlePermissionRequest(
+    msg: PermissionRequestMessage,
+    context: TurnContext
+  ): Promise<void> {
+    const request = withTurnContext(
+      ProtocolNormalizer.normalizePermissionRequest(msg, this.conversationId),
+      context
+    );
+
+    let decision: PermissionDecision = 'deny';
+    let reason: string | undefined;
+
+    if (!this.permissionHandler) {
+      reason = 'No permission handler registered';
+    } else {
+      try {
+        decision = (await this.permissionHandler(request)) === 'allow' ? 'allow' : 'deny';
+      } catch (error) {
+        this.logger.error('Permission handler failed:', error);
+        reason = error instanceof Error ? error.message : 'Permission handler failed';
+      }
+    }
+
+    try {
+      this.send({
+        type: 'permission_response',
+        request_id: request.requestId,
+        tool_use_id: request.toolUseId,
+        decision,
+        ...(decision === 'deny' ? { message: reason || 'Denied by user' } : {}),
+      });
+    } catch (error) {
+      this.logger.error('Failed to send permission response:', error);
+    }
+  }
+
   /**
    * 处理系统消息
    */
   private handleSystemMessage(msg: SystemMessage): void {
-    console.log('[SeaLink] System message:', {
+    this.logger.debug('System message:', {
       subtype: msg.subtype,
       session_id: msg.session_id,
       model: msg.model,
       tools: msg.tools?.length,
     });
 
+    // update 消息可能只包含变更字段，合并到最新系统信息
+    const previous = msg.subtype === 'update' ? this.systemInfo : null;
+    const systemInfo: SystemInfo = {
+      sessionId: msg.session_id ?? previous?.sessionId,
+      model: msg.model ?? previous?.model,
+      version: msg.seaverse_version ?? previous?.version,
+      agents: msg.agents ?? previous?.agents,
+      tools: msg.tools ?? previous?.tools,
+      skills: msg.skills ?? previous?.skills,
+      permissionMode: msg.permissionMode ?? previous?.permissionMode,
+      slashCommands: msg.slash_commands ?? previous?.slashCommands,
+      mcpServers: msg.mcp_servers ?? previous?.mcpServers,
+      outputStyle: msg.output_style ?? previous?.outputStyle,
+    };
+    this.systemInfo = systemInfo;
+
+    if (msg.subtype === 'update') {
+      this.settleUpdate(systemInfo);
+    }
+
     // 通知所有监听器
     this.listeners.forEach((listener) => {
-      listener.streamCallbacks?.onSystem?.({
-        sessionId: msg.session_id,
-        model: msg.model,
-        version: msg.seaverse_version,
-        agents: msg.agents,
-        tools: msg.tools,
-        skills: msg.skills,
-      });
+      listener.streamCallbacks?.onSystem?.(systemInfo);
     });
   }
 
   /**
-   * 处理流式事件
+   * 完成等待中的会话更新
    */
-  private handleStreamEvent(event: StreamEventMessage): void {
-    try {
-      const conversationId = this.conversationId;
-      const eventBlock = event.event; // event 现在是对象而不是字符串
-
-    if (eventBlock.type === 'content_block_start') {
-      // 流式开始
-      this.streamBuffer.start(conversationId);
-      console.log('[SeaLink] Stream started');
-    } else if (eventBlock.type === 'content_block_delta') {
-      // 增量内容
-      const delta = eventBlock.delta; // delta 在 event 对象里，不在 data 里
-      if (!delta) return;
-
-      let chunk = '';
-      if (delta.type === 'text_delta' && delta.text) {
-        chunk = delta.text;
-      } else if (delta.type === 'thinking_delta' && delta.thinking) {
-        // 思考内容也可以流式显示（可选）
-        chunk = delta.thinking;
-      }
+  private settleUpdate(systemInfo: SystemInfo | null, error?: Error): void {
+    const pendingUpdate = this.pendingUpdate;
+    if (!pendingUpdate) return;
+    this.pendingUpdate = null;
+    clearTimeout(pendingUpdate.timer);
 
-      if (chunk) {
-        // 累积到缓冲区
-        const fullContent = this.streamBuffer.append(conversationId, chunk);
-
-        // ✅ 通知所有监听器的 onChunk 回调
-        this.listeners.forEach((listener) => {
-          listener.streamCallbacks?.onChunk?.(chunk);
-        });
+    if (systemInfo) {
+      pendingUpdate.resolve(systemInfo);
+    } else {
+      pendingUpdate.reject(error || new SessionError('Session update failed'));
+    }
+  }
 
-        console.log('[SeaLink] Stream chunk:', chunk, '(total:', fullContent.length, ')');
-      }
-    } else if (eventBlock.type === 'content_block_stop') {
-      // 流式完成
-      const fullContent = this.streamBuffer.complete(conversationId);
-
-      // 创建完整消息
-      const message: AssistantMessage = {
-        id: this.generateId(),
-        conversationId,
-        role: 'assistant',
-        content: fullContent,
-        createdAt: Date.now(),
-      };
+  /**
+   * 通知监听器工具调用（同一 tool use ID 只通知一次）
+   */
+  private emitToolUse(toolUse: ToolUseEvent): void {
+    if (this.emittedToolUseIds.has(toolUse.id)) return;
+    this.emittedToolUseIds.add(toolUse.id);
 
-      console.log('[SeaLink] Stream completed, total length:', fullContent.length);
+    this.listeners.forEach((listener) => {
+      listener.streamCallbacks?.onToolUse?.(toolUse);
+    });
+  }
 
-      // ✅ 先通知所有监听器的流式完成回调
-      this.listeners.forEach((listener) => {
-        listener.streamCallbacks?.onComplete?.();
-      });
+  /**
+   * 通知监听器工具结果
+   */
+  private emitToolResult(toolResult: ToolResultEvent): void {
+    this.listeners.forEach((listener) => {
+      listener.streamCallbacks?.onToolResult?.(toolResult);
+    });
+  }
 
-      // ✅ 再通知所有监听器的主回调（传递完整消息）
-      this.listeners.forEach((listener) => {
-        listener.callback(message);
-      });
-    }
+  /**
+   * 处理流式事件
+   */
+  private handleStreamEvent(event: StreamEventMessage, context: TurnContext): void {
+    try {
+      // 按 content block index 组装，message_stop 时产出完整消息
+      const updates = this.streamAssembler.handle(event, this.conversationId);
+      updates.forEach((update) => this.dispatchStreamUpdate(update, context));
     } catch (error) {
-      console.error('[SeaLink] Stream event handling error:', error);
+      this.logger.error('Stream event handling error:', error);
+
+      // 丢弃出错的消息，避免残留的 block 混入下一条消息
+      this.streamAssembler.reset();
 
       const streamError = new StreamError(
         error instanceof Error ? error.message : 'Stream processing failed',
@@ -305,29 +855,68 @@ export class WebSocketTransport {
     }
   }
 
+  /**
+   * 分发流式组装结果
+   */
+  private dispatchStreamUpdate(update: StreamUpdate, context: TurnContext): void {
+    switch (update.type) {
+      case 'text_delta':
+        // ✅ 通知所有监听器的 onChunk 回调
+        this.listeners.forEach((listener) => {
+          listener.streamCallbacks?.onChunk?.(update.text);
+        });
+        break;
+
+      case 'thinking_delta':
+        // 思考内容单独通知，不混入正文
+        this.listeners.forEach((listener) => {
+          listener.streamCallbacks?.onThinkingChunk?.(update.thinking);
+        });
+        break;
+
+      case 'tool_use':
+        this.emitToolUse(withTurnContext(update.toolUse, context));
+        break;
+
+      case 'message': {
+        const message = withTurnContext(update.message, context);
+        this.logger.debug('Stream completed, total length:', message.content.length);
+
+        // ✅ 先通知所有监听器的流式完成回调
+        this.listeners.forEach((listener) => {
+          listener.streamCallbacks?.onComplete?.();
+        });
+
+        // ✅ 再通知所有监听器的主回调（传递完整消息）
+        this.listeners.forEach((listener) => {
+          listener.callback(message);
+        });
+        break;
+      }
+    }
+  }
+
   /**
    * 断开连接
    */
   disconnect(): void {
+    this.manualClose = true;
+    this.connectGeneration++;
+    this.turnTracker.clear();
+    this.emittedToolUseIds.clear();
     this.stopHeartbeat();
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
+    this.setState('closed');
   }
 
   /**
    * 检查连接状态
    */
   isConnected(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
-  }
-
-  /**
-   * 生成消息ID
-   */
-  private generateId(): string {
-    return `msg_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+    return this.ws?.readyState === WS_OPEN;
   }
 
   /**
@@ -340,24 +929,83 @@ export class WebSocketTransport {
     // 启动新的心跳定时器
     this.heartbeatTimer = setInterval(() => {
       if (this.isConnected()) {
-        console.log('[SeaLink] Sending heartbeat');
+        this.logger.debug('Sending heartbeat');
+        const sentAt = Date.now();
         this.send({
           type: 'heartbeat',
+          timestamp: sentAt,
         });
+        this.heartbeatSentAt = sentAt;
+        this.watchLiveness(sentAt);
       }
     }, this.heartbeatInterval);
 
-    console.log('[SeaLink] Heartbeat started, interval:', this.heartbeatInterval, 'ms');
+    this.logger.debug('Heartbeat started, interval:', this.heartbeatInterval, 'ms');
+  }
+
+  /**
+   * 心跳后在超时时间内未收到任何消息（包括心跳回复）：判定连接已失效（半开连接）
+   *
+   * 连接建立后的第一次心跳起即启用，从不回复心跳的服务端同样能检测到半开连接。
+   */
+  private watchLiveness(sentAt: number): void {
+    if (this.heartbeatTimeout <= 0 || this.livenessTimer) return;
+
+    this.livenessTimer = setTimeout(() => {
+      this.livenessTimer = null;
+      if ((this.lastFrameAt ?? 0) >= sentAt) return;
+
+      this.logger.warn('No response to heartbeat within', this.heartbeatTimeout, 'ms, connection is stale');
+      this.handleConnectionLost(this.ws, true, true);
+    }, this.heartbeatTimeout);
+  }
+
+  /**
+   * 连接断开或失效：清理状态，按配置自动重连
+   */
+  private handleConnectionLost(ws: WebSocketLike | null, initialized: boolean, stale: boolean = false): void {
+    // 忽略已被替换的旧连接
+    if (!ws || this.ws !== ws) return;
+
+    // 停止心跳定时器
+    this.stopHeartbeat();
+    this.ws = null;
+
+    // 失效连接可能迟迟不触发 onclose，主动关闭
+    if (ws.readyState < WS_CLOSING) {
+      if (stale) {
+        ws.close(STALE_CLOSE_CODE, 'Heartbeat timeout');
+      } else {
+        ws.close();
+      }
+    }
+
+    // 丢弃未完成的流式消息和轮次（重连后由服务端重新下发）
+    this.streamAssembler.reset();
+    this.turnTracker.clear();
+
+    // 已建立的连接意外断开：自动重连
+    if (initialized && !this.manualClose) {
+      if (this.autoReconnect) {
+        this.reconnect();
+      } else {
+        this.setState('closed');
+      }
+    }
   }
 
   /**
    * 停止心跳定时器
    */
   private stopHeartbeat(): void {
+    if (this.livenessTimer) {
+      clearTimeout(this.livenessTimer);
+      this.livenessTimer = null;
+    }
     if (this.heartbeatTimer) {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
-      console.log('[SeaLink] Heartbeat stopped');
+      this.logger.debug('Heartbeat stopped');
     }
   }
 
@@ -379,21 +1027,115 @@ export class WebSocketTransport {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * 意外断开后自动重连，并使用最新消息时间恢复会话
+   */
+  private async reconnect(): Promise<void> {
+    if (this.reconnecting || !this.sessionParams) return;
+    this.reconnecting = true;
+
+    const { conversationId, appId, sessionConfig } = this.sessionParams;
+    const generation = this.connectGeneration;
+    const cancelled = () => this.manualClose || generation !== this.connectGeneration;
+    let attempt = 0;
+
+    try {
+      while (!cancelled() && attempt < this.retryConfig.maxReconnectAttempts) {
+        this.setState('reconnecting');
+
+        const delay = this.getRetryDelay(attempt);
+        this.logger.info(`Reconnecting (attempt ${attempt + 1}/${this.retryConfig.maxReconnectAttempts}) in ${delay}ms...`);
+        await this.sleep(delay);
+
+        if (cancelled()) return;
+
+        try {
+          await this.attemptConnect(conversationId, appId, sessionConfig, this.lastMessageCreatedAt);
+          return; // 重连成功
+        } catch (error) {
+          if (cancelled()) return;
+          this.logger.error('Reconnect attempt failed:', error);
+
+          // 会话被服务端拒绝：不再重连
+          if (error instanceof SessionError) {
+            this.listeners.forEach((listener) => {
+              listener.streamCallbacks?.onError?.(error);
+            });
+            this.setState('closed');
+            return;
+          }
+          attempt++;
+        }
+      }
+
+      if (!cancelled()) {
+        this.logger.error('All reconnect attempts failed');
+        const error = new ConnectionError('Connection lost', {
+          attempts: this.retryConfig.maxReconnectAttempts,
+        });
+        this.listeners.forEach((listener) => {
+          listener.streamCallbacks?.onError?.(error);
+        });
+        this.setState('closed');
+      }
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
   /**
    * 执行单次连接尝试
+   *
+   * 在收到 session_initialized 后才算成功
    */
   private async attemptConnect(
     conversationId: string,
     appId: string,
     sessionConfig?: SessionConfig,
     lastMessageCreatedAt?: number
-  ): Promise<void> {
+  ): Promise<SessionInfo> {
     return new Promise((resolve, reject) => {
+      let initialized = false;
+      let settled = false;
+      let pendingInit: PendingInit | null = null;
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        // 只清理本次尝试的 init（可能已被更新的连接尝试替换）
+        if (this.pendingInit === pendingInit) {
+          this.pendingInit = null;
+        }
+        reject(error);
+      };
+
       try {
-        this.ws = new WebSocket(this.wsURL);
+        const ws = this.webSocketFactory(this.wsURL, this.socketOptions);
+        this.ws = ws;
+
+        pendingInit = this.pendingInit = {
+          resolve: (info) => {
+            if (settled) return;
+            settled = true;
+            initialized = true;
 
-        this.ws.onopen = () => {
-          console.log('[SeaLink] WebSocket connected');
+            // 启动心跳定时器
+            this.startHeartbeat();
+
+            // 连接成功，重置重试计数
+            this.currentRetry = 0;
+            this.setState('open');
+
+            resolve(info);
+          },
+          reject: (error) => {
+            fail(error);
+            ws.close();
+          },
+        };
+
+        ws.onopen = () => {
+          this.logger.info('WebSocket connected, initializing session');
 
           // 合并配置：参数 > 默认配置 > 内置默认值
           const config = {
@@ -409,40 +1151,40 @@ export class WebSocketTransport {
             config,
             last_message_created_at: lastMessageCreatedAt,
           });
-
-          // 启动心跳定时器
-          this.startHeartbeat();
-
-          // 连接成功，重置重试计数
-          this.currentRetry = 0;
-
-          resolve();
         };
 
-        this.ws.onmessage = (event) => {
-          this.handleMessage(event.data);
+        ws.onmessage = (event) => {
+          // 忽略已被替换的旧连接上的消息
+          if (this.ws !== ws) return;
+
+          this.lastFrameAt = Date.now();
+          this.handleMessage(toText(event.data));
         };
 
-        this.ws.onerror = (error) => {
-          console.error('[SeaLink] WebSocket error:', error);
+        ws.onerror = (error) => {
+          this.logger.error('WebSocket error:', error);
           const wsError = new ConnectionError('WebSocket connection error');
-          reject(wsError);
+          fail(wsError);
         };
 
-        this.ws.onclose = () => {
-          console.log('[SeaLink] WebSocket closed');
-          // 停止心跳定时器
-          this.stopHeartbeat();
+        ws.onclose = () => {
+          this.logger.info('WebSocket closed');
+
+          // 会话初始化前关闭：本次连接尝试失败
+          fail(new ConnectionError('WebSocket closed before session was initialized'));
+
+          this.handleConnectionLost(ws, initialized);
         };
 
         // 超时处理
         setTimeout(() => {
-          if (this.ws?.readyState !== WebSocket.OPEN) {
-            reject(new ConnectionTimeoutError(this.timeout));
+          if (!initialized) {
+            fail(new ConnectionTimeoutError(this.timeout));
+            ws.close();
           }
         }, this.timeout);
       } catch (error) {
-        reject(error instanceof Error ? error : new ConnectionError('Unknown connection error'));
+        fail(error instanceof Error ? error : new ConnectionError('Unknown connection error'));
       }
     });
   }
@@ -0,0 +1,232 @@
+/**
+ * Chat turn - async-iterator view of a single request/response turn
+ *
+ * @internal SDK internal use
+ */
+
+import type {
+  AssistantMessage,
+  ChatTurn,
+  MediaItem,
+  TurnEvent,
+  UserMessage,
+} from '../types';
+import type { ServerMessage } from './protocol';
+import type { WebSocketTransport } from './transport';
+import { ProtocolNormalizer } from './normalizer';
+import { StreamAssembler } from './assembler';
+import { withTurnContext, type TurnContext } from './correlation';
+import { silentLogger, type NamespacedLogger } from './logger';
+import { ChatError, ConnectionError, StreamError } from '../errors';
+
+/**
+ * Chat turn
+ *
+ * Subscribes to raw server frames before the user message is sent, buffers
+ * the resulting events and hands them out to a single `for await` consumer.
+ * Frames correlated with a different turn are ignored.
+ */
+export class ChatTurnImpl implements ChatTurn {
+  readonly userMessage: Promise<UserMessage>;
+
+  private queue: TurnEvent[] = [];
+  private waiting: Array<{
+    resolve: (result: IteratorResult<TurnEvent>) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private done: boolean = false;
+  private error: Error | null = null;
+  private assembler = new StreamAssembler();
+  private unsubscribers: Array<() => void> = [];
+  private media: MediaItem[] = [];
+  private final: Promise<AssistantMessage>;
+  private resolveFinal!: (message: AssistantMessage) => void;
+  private rejectFinal!: (error: Error) => void;
+
+  constructor(
+    private transport: WebSocketTransport,
+    private conversationId: string,
+    readonly turnId: string,
+    send: () => Promise<UserMessage>,
+    private cancelSend: () => void,
+    private logger: NamespacedLogger = silentLogger
+  ) {
+    this.final = new Promise((resolve, reject) => {
+      this.resolveFinal = resolve;
+      this.rejectFinal = reject;
+    });
+    // Avoid unhandled rejection when finalMessage() is never called
+    this.final.catch(() => {});
+
+    this.unsubscribers.push(
+      transport.onFrame((frame, context) => this.handleFrame(frame, context)),
+      transport.onStateChange((state) => {
+        if (state === 'closed') {
+          this.fail(new ConnectionError('Connection closed before the turn completed'));
+        }
+      })
+    );
+
+    this.userMessage = send();
+    this.userMessage.catch((error) => {
+      this.fail(error instanceof Error ? error : new ChatError(String(error), 'SEND_FAILED'));
+    });
+  }
+
+  /**
+   * Wait for the final result message
+   */
+  finalMessage(): Promise<AssistantMessage> {
+    return this.final;
+  }
+
+  /**
+   * Abort the turn
+   *
+   * Sends `interrupt` only when this turn is the one running; a turn queued
+   * behind another is interrupted once it starts, and a message not sent yet
+   * (uploading or queued offline) is dropped.
+   * Iteration ends without error; `finalMessage()` rejects with `StreamError`.
+   */
+  abort(): void {
+    if (this.done) return;
+
+    try {
+      if (!this.transport.interruptTurn(this.turnId)) {
+        this.cancelSend();
+      }
+    } catch (error) {
+      this.logger.error('Failed to send interrupt:', error);
+    }
+    this.fail(new StreamError('Turn aborted', this.conversationId, { aborted: true }), false);
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<TurnEvent> {
+    return {
+      next: () => this.next(),
+      return: async () => {
+        // Consumer stopped iterating (e.g. `break`): stop listening, keep the turn running server-side
+        this.cleanup();
+        return { done: true, value: undefined };
+      },
+    };
+  }
+
+  private next(): Promise<IteratorResult<TurnEvent>> {
+    if (this.queue.length > 0) {
+      return Promise.resolve({ done: false, value: this.queue.shift()! });
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    if (this.done) {
+      return Promise.resolve({ done: true, value: undefined });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Convert raw server frames into turn events
+   */
+  private handleFrame(frame: ServerMessage, context: TurnContext): void {
+    if (this.done) return;
+    if (context.turnId && context.turnId !== this.turnId) return;
+
+    try {
+      switch (frame.type) {
+        case 'stream_event':
+          this.assembler.handle(frame, this.conversationId).forEach((update) => {
+            if (update.type === 'text_delta') this.push({ type: 'text_delta', text: update.text });
+            else if (update.type === 'thinking_delta') this.push({ type: 'thinking_delta', thinking: update.thinking });
+            else if (update.type === 'tool_use') this.push({ type: 'tool_use', toolUse: withTurnContext(update.toolUse, context) });
+            else this.push({ type: 'message', message: withTurnContext(update.message, context) });
+          });
+          return;
+
+        case 'assistant': {
+          const { toolUses, toolResults } = ProtocolNormalizer.normalizeToolEvents(frame, this.conversationId);
+          toolUses.forEach((toolUse) => this.push({ type: 'tool_use', toolUse: withTurnContext(toolUse, context) }));
+          toolResults.forEach((toolResult) => this.push({ type: 'tool_result', toolResult: withTurnContext(toolResult, context) }));
+          ProtocolNormalizer.normalize(frame, this.conversationId, this.logger).forEach((message) => {
+            this.push({ type: 'message', message: withTurnContext(message as AssistantMessage, context) });
+          });
+          return;
+        }
+
+        case 'media_result': {
+          const media = withTurnContext(ProtocolNormalizer.normalizeMedia(frame, this.conversationId), context);
+          this.media.push(...media.items);
+          ProtocolNormalizer.normalize(frame, this.conversationId, this.logger).forEach((message) => {
+            this.push({ type: 'media', media, message: withTurnContext(message as AssistantMessage, context) });
+          });
+          return;
+        }
+
+        case 'result': {
+          const [normalized] = ProtocolNormalizer.normalize(frame, this.conversationId, this.logger) as AssistantMessage[];
+          const message = withTurnContext(
+            this.media.length > 0 ? { ...normalized, media: this.media } : normalized,
+            context
+          );
+          this.push({ type: 'result', message });
+          this.complete(message);
+          return;
+        }
+
+        case 'error':
+          // Errors of session requests (init, update) carry no turn
+          if (context.turnId !== this.turnId) return;
+          this.fail(ProtocolNormalizer.normalizeError(frame));
+          return;
+      }
+    } catch (error) {
+      this.fail(error instanceof Error ? error : new StreamError('Stream processing failed', this.conversationId));
+    }
+  }
+
+  private push(event: TurnEvent): void {
+    const waiter = this.waiting.shift();
+
+    if (waiter) {
+      waiter.resolve({ done: false, value: event });
+    } else {
+      this.queue.push(event);
+    }
+  }
+
+  private complete(message: AssistantMessage): void {
+    if (this.done) return;
+    this.done = true;
+    this.cleanup();
+    this.resolveFinal(message);
+
+    this.waiting.forEach(({ resolve }) => resolve({ done: true, value: undefined }));
+    this.waiting = [];
+  }
+
+  /**
+   * End the turn with an error (thrown from the iterator unless `throwFromIterator` is false)
+   */
+  private fail(error: Error, throwFromIterator: boolean = true): void {
+    if (this.done) return;
+    this.done = true;
+    this.cleanup();
+    this.rejectFinal(error);
+
+    if (throwFromIterator) {
+      this.error = error;
+      this.waiting.forEach(({ reject }) => reject(error));
+    } else {
+      this.waiting.forEach(({ resolve }) => resolve({ done: true, value: undefined }));
+    }
+    this.waiting = [];
+  }
+
+  private cleanup(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+  }
+}
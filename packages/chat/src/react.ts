@@ -6,7 +6,7 @@
  * import { useChat } from '@sealink/chat/react';
  *
  * function ChatComponent() {
- *   const { messages, streamingContent, sendMessage } = useChat({
+ *   const { messages, streamingContent, isStreaming, error, sendMessage, stop } = useChat({
  *     apiURL: 'https://api.example.com',
  *     conversationId: 'your-conversation-id',
  *     appId: 'your-app-id',
@@ -17,16 +17,25 @@
  *     <div>
  *       {messages.map(m => <div key={m.id}>{m.content}</div>)}
  *       {streamingContent && <div>{streamingContent}</div>}
+ *       {error && <div>{error.message}</div>}
  *       <button onClick={() => sendMessage('Hi')}>Send</button>
+ *       {isStreaming && <button onClick={stop}>Stop</button>}
  *     </div>
  *   );
  * }
  * ```
  */
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import type { Message, ChatConfig, UserMessage } from './types';
-import { createChat } from './index';
+import { useEffect, useMemo, useCallback, useRef, useSyncExternalStore } from 'react';
+import type {
+  ChatConfig,
+  ChatState,
+  HistoryLoader,
+  UserMessage,
+} from './types';
+import { createChat, createChatStore } from './index';
+
+export type { HistoryLoader } from './types';
 
 /**
  * useChat Hook configuration
@@ -34,20 +43,29 @@ import { createChat } from './index';
 export interface UseChatConfig extends ChatConfig {
   /** Last message created timestamp */
   lastMessageCreatedAt?: number;
+
+  /**
+   * Load earlier messages when the hook mounts or the conversation changes
+   */
+  loadHistory?: HistoryLoader;
 }
 
 /**
  * useChat Hook return value
  */
-export interface UseChatReturn {
-  /** Message list */
-  messages: Message[];
-  /** Streaming content (real-time) */
-  streamingContent: string;
+export interface UseChatReturn extends ChatState {
   /** Send message */
   sendMessage: (content: string) => Promise<UserMessage>;
+  /** Resend a failed message (defaults to the last failed one) */
+  retry: (message?: UserMessage) => Promise<UserMessage | null>;
+  /** Reload history and reconnect if the connection was closed */
+  reload: () => Promise<void>;
+  /** Interrupt the current turn and clear the streaming buffer */
+  stop: () => Promise<void>;
   /** Interrupt execution */
   interrupt: () => Promise<void>;
+  /** Clear `error` */
+  clearError: () => void;
   /** Connection status */
   connected: boolean;
 }
@@ -55,6 +73,10 @@ export interface UseChatReturn {
 /**
  * React Hook - supports streaming messages
  *
+ * Thin wrapper around `createChatStore`. A new client and store are created
+ * when the conversation, app, token or URLs change; the previous client is
+ * disconnected and the hook state starts over.
+ *
  * @param config - Hook configuration
  * @returns Hook return value
  *
@@ -64,95 +86,60 @@ export interface UseChatReturn {
  *   apiURL: 'https://api.example.com',
  *   conversationId: 'your-conversation-id',
  *   appId: 'your-app-id',
- *   token: 'your-token'
+ *   token: 'your-token',
+ *   loadHistory,
  * });
  * ```
  */
 export function useChat(config: UseChatConfig): UseChatReturn {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [streamingContent, setStreamingContent] = useState('');
-  const [connected, setConnected] = useState(false);
+  // Latest loader without re-creating the store for inline functions
+  const loadHistoryRef = useRef(config.loadHistory);
+  loadHistoryRef.current = config.loadHistory;
 
-  // Create client instance (create only once)
-  const client = useMemo(() => createChat(config), [config.apiURL, config.wsURL]);
+  // Create client and store (re-created when the conversation or credentials change)
+  const store = useMemo(
+    () =>
+      createChatStore(createChat(config), {
+        logger: config.logger,
+        loadHistory: (conversationId) =>
+          loadHistoryRef.current ? loadHistoryRef.current(conversationId) : Promise.resolve([]),
+      }),
+    [config.apiURL, config.wsURL, config.conversationId, config.appId, config.token]
+  );
+
+  const state = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
 
   // Connect WebSocket
   useEffect(() => {
-    let mounted = true;
-
-    async function connect() {
-      try {
-        await client.connect({
-          sessionConfig: config.sessionConfig,
-          lastMessageCreatedAt: config.lastMessageCreatedAt,
-        });
-        if (mounted) {
-          setConnected(true);
-        }
-      } catch (error) {
-        console.error('[useChat] Connect failed:', error);
-        if (mounted) {
-          setConnected(false);
-        }
-      }
-    }
-
-    connect();
+    store
+      .connect({
+        sessionConfig: config.sessionConfig,
+        lastMessageCreatedAt: config.lastMessageCreatedAt,
+      })
+      // Kept in state.error
+      .catch(() => {});
 
     return () => {
-      mounted = false;
-      client.disconnect();
-      setConnected(false);
+      store.disconnect();
     };
-  }, [client, config.sessionConfig, config.lastMessageCreatedAt]);
-
-  // Listen for new messages (with stream callbacks)
-  useEffect(() => {
-    const unsubscribe = client.onMessage(
-      (msg) => {
-        // Add complete message to list
-        setMessages((prev) => [...prev, msg]);
-      },
-      {
-        // Stream incremental update
-        onChunk: (chunk) => {
-          setStreamingContent((prev) => prev + chunk);
-        },
-        // Stream complete, clear buffer
-        onComplete: () => {
-          setStreamingContent('');
-        },
-        // Stream error
-        onError: (error) => {
-          console.error('[useChat] Stream error:', error);
-          setStreamingContent('');
-        },
-      }
-    );
-
-    return unsubscribe;
-  }, [client]);
+  }, [store, config.sessionConfig, config.lastMessageCreatedAt]);
 
   // Send message
-  const sendMessage = useCallback(
-    async (content: string) => {
-      const userMsg = await client.sendMessage(content);
-      setMessages((prev) => [...prev, userMsg]);
-      return userMsg;
-    },
-    [client]
-  );
+  const sendMessage = useCallback((content: string) => store.sendMessage(content), [store]);
 
   // Interrupt execution
   const interrupt = useCallback(async () => {
-    await client.interrupt();
-  }, [client]);
+    await store.client.interrupt();
+  }, [store]);
 
   return {
-    messages,
-    streamingContent,
+    ...state,
     sendMessage,
+    retry: store.retry,
+    reload: store.reload,
+    stop: store.stop,
     interrupt,
-    connected,
+    clearError: store.clearError,
+    connected: state.connectionState === 'open',
   };
 }
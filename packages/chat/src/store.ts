@@ -0,0 +1,375 @@
+/**
+ * Chat store - framework-agnostic chat state on top of a ChatClient
+ *
+ * @example Vanilla JS
+ * ```ts
+ * import { createChat, createChatStore } from '@sealink/chat';
+ *
+ * const store = createChatStore(createChat(config), { loadHistory });
+ *
+ * store.subscribe(() => render(store.getSnapshot()));
+ * await store.connect();
+ * await store.sendMessage('Hello!');
+ * ```
+ *
+ * @example Vue
+ * ```ts
+ * const state = shallowRef(store.getSnapshot());
+ * const unsubscribe = store.subscribe(() => (state.value = store.getSnapshot()));
+ * ```
+ */
+
+import type { ChatClient, ConnectOptions } from './index';
+import type {
+  ChatState,
+  ChatStoreOptions,
+  SendMessageOptions,
+  ToolActivity,
+  Unsubscribe,
+  UserMessage,
+} from './types';
+import { mergeMediaMessage } from './internal/media';
+import { createLogger } from './internal/logger';
+
+/**
+ * Chat store interface
+ */
+export interface ChatStore {
+  /**
+   * Underlying client
+   */
+  readonly client: ChatClient;
+
+  /**
+   * Listen for state changes (compatible with React `useSyncExternalStore`)
+   */
+  subscribe(listener: () => void): Unsubscribe;
+
+  /**
+   * Get the current state (same object until the next change)
+   */
+  getSnapshot(): ChatState;
+
+  /**
+   * Start tracking the client, load history and connect
+   *
+   * Connection errors are also stored in `state.error`.
+   */
+  connect(options?: ConnectOptions): Promise<void>;
+
+  /**
+   * Stop tracking the client and disconnect (state is kept)
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Send message and add it to the list
+   */
+  sendMessage(content: string, options?: SendMessageOptions): Promise<UserMessage>;
+
+  /**
+   * Resend a failed message in place (defaults to the last failed one)
+   *
+   * Only the text is resent; attachments of the failed message are not.
+   */
+  retry(message?: UserMessage): Promise<UserMessage | null>;
+
+  /**
+   * Reload history and reconnect if the connection was closed
+   */
+  reload(): Promise<void>;
+
+  /**
+   * Interrupt the current turn and clear the streaming draft
+   */
+  stop(): Promise<void>;
+
+  /**
+   * Clear `state.error`
+   */
+  clearError(): void;
+}
+
+/**
+ * Create a chat store
+ *
+ * @param client - Chat client (one store per client)
+ * @param options - Store options
+ * @returns Chat store
+ */
+export function createChatStore(client: ChatClient, options: ChatStoreOptions = {}): ChatStore {
+  const logger = createLogger(options.logger, 'sealink:store');
+
+  let state: ChatState = {
+    messages: [],
+    streamingContent: '',
+    streamingThinking: '',
+    isStreaming: false,
+    isLoadingHistory: false,
+    tools: [],
+    connectionState: client.getConnectionState(),
+    error: null,
+    systemInfo: client.getSystemInfo(),
+    usage: client.getUsage(),
+  };
+
+  const listeners = new Set<() => void>();
+  let subscriptions: Unsubscribe[] = [];
+  let connectOptions: ConnectOptions | undefined;
+  // Bumped on disconnect: history loaded for an earlier connection is dropped
+  let generation = 0;
+
+  function setState(patch: Partial<ChatState> | ((prev: ChatState) => Partial<ChatState>)): void {
+    const changes = typeof patch === 'function' ? patch(state) : patch;
+    state = { ...state, ...changes };
+    listeners.forEach((listener) => listener());
+  }
+
+  function updateTool(id: string, update: (tool: ToolActivity | undefined) => ToolActivity): void {
+    setState((prev) => {
+      const index = prev.tools.findIndex((tool) => tool.id === id);
+      if (index === -1) {
+        return { tools: [...prev.tools, update(undefined)] };
+      }
+
+      const tools = [...prev.tools];
+      tools[index] = update(tools[index]);
+      return { tools };
+    });
+  }
+
+  function fail(message: string, error: unknown): Error {
+    const err = error instanceof Error ? error : new Error(String(error));
+    logger.error(message, err);
+    setState({ error: err });
+    return err;
+  }
+
+  /**
+   * Subscribe to client events
+   */
+  function attach(): void {
+    if (subscriptions.length > 0) return;
+
+    subscriptions = [
+      client.onConnectionStateChange((connectionState) => {
+        // A turn cannot complete on a lost connection
+        setState(
+          connectionState === 'open'
+            ? { connectionState }
+            : { connectionState, isStreaming: false, streamingContent: '', streamingThinking: '' }
+        );
+      }),
+
+      client.onMessage(
+        (msg) => {
+          setState((prev) => ({ messages: mergeMediaMessage(prev.messages, msg) }));
+        },
+        {
+          // Also marks turns not sent through the store (e.g. resumed after a reconnect)
+          onChunk: (chunk) => {
+            setState((prev) => ({ isStreaming: true, streamingContent: prev.streamingContent + chunk }));
+          },
+          onThinkingChunk: (chunk) => {
+            setState((prev) => ({ isStreaming: true, streamingThinking: prev.streamingThinking + chunk }));
+          },
+          onComplete: () => {
+            setState({ streamingContent: '', streamingThinking: '' });
+          },
+          onError: (error) => {
+            logger.error('Stream error:', error);
+            setState({ error, isStreaming: false, streamingContent: '', streamingThinking: '' });
+          },
+          onSystem: (systemInfo) => {
+            setState({ systemInfo });
+          },
+          onToolUse: (toolUse) => {
+            setState({ isStreaming: true });
+            updateTool(toolUse.id, (tool) => ({
+              ...tool,
+              id: toolUse.id,
+              name: toolUse.name,
+              input: toolUse.input,
+              status: tool?.status ?? 'running',
+              parentToolUseId: toolUse.parentToolUseId,
+              ...(toolUse.turnId ? { turnId: toolUse.turnId } : {}),
+            }));
+          },
+          onToolResult: (toolResult) => {
+            updateTool(toolResult.toolUseId, (tool) => ({
+              name: '',
+              input: undefined,
+              parentToolUseId: toolResult.parentToolUseId,
+              ...tool,
+              id: toolResult.toolUseId,
+              status: toolResult.isError ? 'failed' : 'completed',
+              result: toolResult.content,
+            }));
+          },
+          onMedia: (media) => {
+            updateTool(media.toolUseId, (tool) => ({
+              name: '',
+              input: undefined,
+              status: 'completed',
+              parentToolUseId: media.parentToolUseId ?? null,
+              ...tool,
+              id: media.toolUseId,
+              media: [...(tool?.media || []), ...media.items],
+            }));
+          },
+          onPermissionDenial: (denial) => {
+            updateTool(denial.toolUseId, (tool) => ({
+              parentToolUseId: null,
+              ...tool,
+              id: denial.toolUseId,
+              name: denial.toolName,
+              input: denial.toolInput,
+              status: 'denied',
+            }));
+          },
+          onResult: () => {
+            setState({ isStreaming: false, usage: client.getUsage() });
+          },
+        }
+      ),
+
+      client.onMessageStatusChange((updated) => {
+        setState((prev) => ({
+          messages: prev.messages.map((msg) =>
+            msg.role === 'user' && msg.clientMessageId === updated.clientMessageId ? updated : msg
+          ),
+        }));
+      }),
+    ];
+  }
+
+  /**
+   * Load history and merge it with messages that arrived in the meantime
+   */
+  async function hydrate(): Promise<void> {
+    if (!options.loadHistory) return;
+
+    const current = generation;
+    setState({ isLoadingHistory: true });
+
+    try {
+      const history = await options.loadHistory(client.getConversationId());
+      if (current !== generation) return;
+
+      setState((prev) => {
+        const ids = new Set(history.map((msg) => msg.id));
+        return { messages: [...history, ...prev.messages.filter((msg) => !ids.has(msg.id))] };
+      });
+    } catch (error) {
+      if (current === generation) fail('Load history failed:', error);
+    } finally {
+      if (current === generation) setState({ isLoadingHistory: false });
+    }
+  }
+
+  async function send(content: string, sendOptions: SendMessageOptions | undefined, replaceId?: string) {
+    try {
+      const userMsg = await client.sendMessage(content, sendOptions);
+      setState((prev) => ({
+        error: null,
+        isStreaming: true,
+        messages: [...prev.messages.filter((msg) => msg.id !== replaceId), userMsg],
+      }));
+      return userMsg;
+    } catch (error) {
+      throw fail('Send failed:', error);
+    }
+  }
+
+  const store: ChatStore = {
+    client,
+
+    subscribe(listener: () => void): Unsubscribe {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getSnapshot(): ChatState {
+      return state;
+    },
+
+    async connect(options?: ConnectOptions): Promise<void> {
+      connectOptions = options;
+      attach();
+      hydrate();
+
+      try {
+        await client.connect(options);
+      } catch (error) {
+        throw fail('Connect failed:', error);
+      }
+    },
+
+    async disconnect(): Promise<void> {
+      generation++;
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+      subscriptions = [];
+      setState({
+        connectionState: 'closed',
+        isStreaming: false,
+        isLoadingHistory: false,
+        streamingContent: '',
+        streamingThinking: '',
+      });
+
+      await client.disconnect();
+    },
+
+    sendMessage(content: string, sendOptions?: SendMessageOptions): Promise<UserMessage> {
+      return send(content, sendOptions);
+    },
+
+    async retry(message?: UserMessage): Promise<UserMessage | null> {
+      let target = message;
+
+      if (!target) {
+        const failed = state.messages.filter(
+          (msg): msg is UserMessage => msg.role === 'user' && msg.status === 'failed'
+        );
+        target = failed[failed.length - 1];
+      }
+
+      if (!target) return null;
+
+      return send(target.content, undefined, target.id);
+    },
+
+    async reload(): Promise<void> {
+      setState({ error: null });
+
+      if (client.getConnectionState() === 'closed') {
+        attach();
+        try {
+          await client.connect(connectOptions);
+        } catch (error) {
+          fail('Reconnect failed:', error);
+        }
+      }
+
+      await hydrate();
+    },
+
+    async stop(): Promise<void> {
+      try {
+        await client.interrupt();
+      } catch (error) {
+        fail('Interrupt failed:', error);
+      } finally {
+        setState({ isStreaming: false, streamingContent: '', streamingThinking: '' });
+      }
+    },
+
+    clearError(): void {
+      setState({ error: null });
+    },
+  };
+
+  return store;
+}
@@ -24,6 +24,18 @@ export interface BaseMessage {
   /** Created timestamp */
   createdAt: number;
 
+  /**
+   * Turn ID: `clientMessageId` of the user message that triggered this message
+   * (for user messages, their own `clientMessageId`)
+   */
+  turnId?: string;
+
+  /** Server session ID */
+  sessionId?: string;
+
+  /** Parent tool use ID (set for messages produced inside a sub-agent/tool call) */
+  parentToolUseId?: string | null;
+
   /** Raw data (for debugging, includes media extensions) */
   raw?: {
     media?: {
@@ -39,8 +51,35 @@ export interface BaseMessage {
  */
 export interface UserMessage extends BaseMessage {
   role: 'user';
+
+  /** Uploaded attachments */
+  attachments?: Attachment[];
+
+  /**
+   * Delivery status (messages returned by sendMessage)
+   */
+  status?: MessageStatus;
+
+  /**
+   * Client-generated idempotency key, sent with the message
+   */
+  clientMessageId?: string;
 }
 
+/**
+ * User message delivery status
+ *
+ * - `pending`: Queued or sent, waiting for server acknowledgement
+ * - `sent`: Acknowledged by the server (or the server started responding)
+ * - `failed`: Could not be delivered
+ */
+export type MessageStatus = 'pending' | 'sent' | 'failed';
+
+/**
+ * Message status callback function type
+ */
+export type MessageStatusCallback = (message: UserMessage) => void;
+
 /**
  * Token usage statistics
  */
@@ -55,6 +94,100 @@ export interface Usage {
   cache_read_input_tokens?: number;
 }
 
+/**
+ * Token usage and cost of a single model
+ */
+export interface ModelUsage {
+  /** Input tokens */
+  inputTokens: number;
+  /** Output tokens */
+  outputTokens: number;
+  /** Cache creation tokens */
+  cacheCreationInputTokens?: number;
+  /** Cache read tokens */
+  cacheReadInputTokens?: number;
+  /** Cost in USD */
+  costUsd?: number;
+}
+
+/**
+ * Cost of a turn
+ */
+export interface Cost {
+  /** Total cost in USD */
+  totalUsd: number;
+  /** Usage and cost per model */
+  byModel?: Record<string, ModelUsage>;
+}
+
+/**
+ * Timing of a turn
+ */
+export interface Timing {
+  /** Total duration (ms) */
+  durationMs?: number;
+  /** Time spent in model API calls (ms) */
+  durationApiMs?: number;
+  /** Number of agent turns (model round trips) */
+  numTurns?: number;
+}
+
+/**
+ * Tool call denied by the permission system
+ */
+export interface PermissionDenial {
+  /** Tool name */
+  toolName: string;
+  /** Tool use ID */
+  toolUseId: string;
+  /** Tool input */
+  toolInput: unknown;
+}
+
+/**
+ * Turn result (from the server's `result` frame)
+ */
+export interface ResultInfo {
+  /** Result message ID */
+  id: string;
+  /** Conversation ID */
+  conversationId: string;
+  /** Turn ID (see `BaseMessage.turnId`) */
+  turnId?: string;
+  /** Server session ID */
+  sessionId: string;
+  /** Whether the turn ended with an error */
+  isError: boolean;
+  /** Result text (error message when `isError`) */
+  result: string;
+  /** Token usage */
+  usage?: Usage;
+  /** Cost */
+  cost?: Cost;
+  /** Timing */
+  timing: Timing;
+  /** Tool calls denied during the turn */
+  permissionDenials: PermissionDenial[];
+}
+
+/**
+ * Accumulated usage of the chat session (see `chat.getUsage()`)
+ */
+export interface SessionUsage {
+  /** Total token usage */
+  usage: Required<Usage>;
+  /** Total cost in USD */
+  totalCostUsd: number;
+  /** Total duration (ms) */
+  durationMs: number;
+  /** Total time spent in model API calls (ms) */
+  durationApiMs: number;
+  /** Total number of agent turns */
+  numTurns: number;
+  /** Number of results received (completed turns, including errors) */
+  results: number;
+}
+
 /**
  * Stop reason
  */
@@ -65,6 +198,56 @@ export type StopReason =
   | 'tool_use'          // Tool call required
   | null;               // Unknown or incomplete
 
+/**
+ * Assistant message content part (ordered by content block index)
+ */
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'thinking'; thinking: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown; media?: MediaItem[] };
+
+/**
+ * Media kind
+ */
+export type MediaKind = 'image' | 'video' | 'audio';
+
+/**
+ * Media file generated by a tool
+ */
+export interface MediaItem {
+  /** Media kind */
+  kind: MediaKind;
+  /** File URL */
+  url: string;
+  /** MIME type (inferred from the URL extension) */
+  mimeType: string;
+  /** ID of the tool call that produced the file */
+  toolUseId: string;
+}
+
+/**
+ * Media produced by a tool call (from the server's `media_result` frame)
+ */
+export interface MediaResultEvent {
+  /** ID of the tool call that produced the media */
+  toolUseId: string;
+
+  /** Conversation ID */
+  conversationId: string;
+
+  /** Media files */
+  items: MediaItem[];
+
+  /** Turn ID (see `BaseMessage.turnId`) */
+  turnId?: string;
+
+  /** Server session ID */
+  sessionId?: string;
+
+  /** Parent tool use ID */
+  parentToolUseId?: string | null;
+}
+
 /**
  * Assistant message (received by onMessage)
  */
@@ -86,6 +269,46 @@ export interface AssistantMessage extends BaseMessage {
    */
   model?: string;
 
+  /**
+   * Model reasoning (thinking blocks), kept separate from `content`
+   */
+  thinking?: string;
+
+  /**
+   * Content parts in stream order (streamed messages only)
+   *
+   * `content` and `thinking` are the concatenation of the text and thinking parts.
+   */
+  parts?: ContentPart[];
+
+  /**
+   * Media generated by tools
+   *
+   * Media messages carry their own items; `mergeMediaMessage` moves them onto
+   * the assistant message containing the tool call.
+   */
+  media?: MediaItem[];
+
+  /**
+   * ID of the tool call that produced this message (media messages only)
+   */
+  toolUseId?: string;
+
+  /**
+   * Cost (result messages only)
+   */
+  cost?: Cost;
+
+  /**
+   * Timing (result messages only)
+   */
+  timing?: Timing;
+
+  /**
+   * Tool calls denied during the turn (result messages only)
+   */
+  permissionDenials?: PermissionDenial[];
+
   /**
    * Raw data (extended fields)
    */
@@ -171,8 +394,199 @@ export interface ChatConfig {
 
   /**
    * Auto-retry configuration
+   *
+   * Applies to the initial connection and to automatic reconnection.
    */
   retry?: RetryConfig;
+
+  /**
+   * Automatically reconnect (and resume the session) after an unexpected close
+   * @default true
+   */
+  autoReconnect?: boolean;
+
+  /**
+   * Heartbeat and liveness detection
+   */
+  heartbeat?: HeartbeatConfig;
+
+  /**
+   * Logging (silent by default)
+   */
+  logger?: LoggerOptions;
+
+  /**
+   * Attachment upload configuration
+   */
+  attachments?: AttachmentConfig;
+
+  /**
+   * Custom WebSocket implementation (e.g. `ws` on Node.js < 22)
+   *
+   * @default Global `WebSocket`
+   *
+   * @example Node.js with `ws`
+   * ```ts
+   * import WebSocket from 'ws';
+   *
+   * createChat({
+   *   ...config,
+   *   authTransport: 'header',
+   *   webSocketFactory: (url, { protocols, headers }) =>
+   *     new WebSocket(url, protocols, { headers }),
+   * });
+   * ```
+   */
+  webSocketFactory?: WebSocketFactory;
+
+  /**
+   * How the token is sent when the WebSocket URL is built from `baseURL`
+   *
+   * - `query`: `?token=...` in the URL (works everywhere)
+   * - `header`: `Authorization: Bearer ...` header (requires a `webSocketFactory`
+   *   that supports headers, such as `ws`; falls back to `query` otherwise)
+   * - `subprotocol`: `Sec-WebSocket-Protocol: bearer, <token>`
+   *
+   * @default 'query'
+   */
+  authTransport?: 'query' | 'header' | 'subprotocol';
+
+  /**
+   * Queue messages sent while disconnected and send them after (re)connecting
+   *
+   * When disabled, `sendMessage` throws `ConnectionError` while disconnected.
+   * @default false
+   */
+  queueOfflineMessages?: boolean;
+}
+
+/**
+ * Chat manager configuration (shared by all conversations of the connection)
+ */
+export type ChatManagerConfig = Omit<ChatConfig, 'conversationId'>;
+
+/**
+ * Per-conversation overrides for `ChatManager.conversation`
+ */
+export interface ConversationOptions {
+  /** Application ID (defaults to the manager's `appId`) */
+  appId?: string;
+
+  /** Session configuration (defaults to the manager's `sessionConfig`) */
+  sessionConfig?: SessionConfig;
+}
+
+/**
+ * Minimal WebSocket interface used by the SDK
+ *
+ * Implemented by the browser/Node.js 22+ global `WebSocket` and by `ws`.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+}
+
+/**
+ * WebSocket connection options passed to the factory
+ */
+export interface WebSocketFactoryOptions {
+  /** Subprotocols (`Sec-WebSocket-Protocol`) */
+  protocols?: string[];
+
+  /** HTTP headers for the upgrade request (not supported by browsers) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * WebSocket factory function type
+ */
+export type WebSocketFactory = (url: string, options: WebSocketFactoryOptions) => WebSocketLike;
+
+/**
+ * Log level (`silent` disables logging)
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Log output (compatible with `console`, pino, winston, ...)
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * Logging configuration
+ *
+ * The same object can be passed to `@seaverse/conversation-sdk`.
+ *
+ * @example
+ * ```ts
+ * createChat({
+ *   ...config,
+ *   logger: { level: 'debug', namespaces: ['sealink:transport'] },
+ * });
+ * ```
+ */
+export interface LoggerOptions {
+  /**
+   * Minimum level to output
+   * @default 'info'
+   */
+  level?: LogLevel;
+
+  /**
+   * Namespaces to output (`*` wildcard, e.g. `sealink:*`); all when omitted
+   *
+   * Chat SDK namespaces: `sealink:client`, `sealink:transport`,
+   * `sealink:transport:normalizer`, `sealink:outbox`, `sealink:turn`, `sealink:store`,
+   * `sealink:react`.
+   */
+  namespaces?: string[];
+
+  /**
+   * Replace tokens and message bodies with `[REDACTED]`
+   * @default true
+   */
+  redact?: boolean;
+
+  /**
+   * Log output
+   * @default console
+   */
+  output?: Logger;
+}
+
+/**
+ * Heartbeat configuration
+ *
+ * A heartbeat is sent every `interval`. If no frame at all (pong or any other
+ * message) arrives within `timeout` after it, the socket is considered stale:
+ * it is dropped and the client reconnects (see `autoReconnect`).
+ */
+export interface HeartbeatConfig {
+  /**
+   * Heartbeat interval (milliseconds)
+   * @default 30000
+   */
+  interval?: number;
+
+  /**
+   * Time to wait for any frame after a heartbeat (milliseconds), 0 disables liveness detection
+   *
+   * Checked from the first heartbeat of each connection: a connection that
+   * receives nothing, not even a heartbeat answer, within this time is treated
+   * as half-open and reconnected.
+   * @default 10000
+   */
+  timeout?: number;
 }
 
 /**
@@ -202,28 +616,221 @@ export interface RetryConfig {
    * @default 2
    */
   backoffMultiplier?: number;
+
+  /**
+   * Maximum reconnect attempts after an established connection drops
+   * @default 10
+   */
+  maxReconnectAttempts?: number;
 }
 
+/**
+ * Connection state
+ *
+ * - `connecting`: Initial connection in progress
+ * - `open`: Connected, session initialized
+ * - `reconnecting`: Connection lost unexpectedly, waiting to reconnect
+ * - `closed`: Disconnected (by `disconnect()` or after all attempts failed)
+ */
+export type ConnectionState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * Connection state callback function type
+ */
+export type ConnectionStateCallback = (state: ConnectionState) => void;
+
 /**
  * Send message options
  */
 export interface SendMessageOptions {
   /**
-   * Attachment list (future extension, not implemented in current version)
-   * @future
+   * Files to upload and attach to the message
    */
-  attachments?: Attachment[];
+  attachments?: AttachmentInput[];
 }
 
 /**
- * Attachment type (future extension)
- * @future
+ * Attachment input
+ *
+ * A `File`/`Blob`, or raw bytes (`ArrayBuffer`, `Uint8Array`, Node.js `Buffer`)
+ * with a filename. MIME type is detected from the blob type, the filename
+ * extension or the file content when not given.
+ */
+export type AttachmentInput =
+  | Blob
+  | {
+      data: Blob | ArrayBuffer | Uint8Array;
+      filename?: string;
+      mimeType?: string;
+    };
+
+/**
+ * Attachment type
+ */
+export type AttachmentType = 'image' | 'file' | 'audio';
+
+/**
+ * Uploaded attachment
  */
 export interface Attachment {
-  type: 'image' | 'file' | 'audio';
-  url: string;
+  type: AttachmentType;
+  /** Uploaded file ID */
+  fileId: string;
   filename: string;
-  size?: number;
+  mimeType: string;
+  size: number;
+  /** File URL (if returned by the uploader) */
+  url?: string;
+}
+
+/**
+ * Upload result
+ */
+export interface UploadResult {
+  fileId: string;
+  url?: string;
+}
+
+/**
+ * File upload function
+ *
+ * Uploads a file and returns its file ID.
+ */
+export type FileUploader = (
+  file: Blob,
+  info: { filename: string; mimeType: string; size: number }
+) => Promise<UploadResult>;
+
+/**
+ * Attachment configuration
+ */
+export interface AttachmentConfig {
+  /**
+   * Upload function (required to send attachments)
+   *
+   * @example
+   * ```ts
+   * upload: async (file, info) => {
+   *   const { id, url } = await myStorage.put(file, info.filename);
+   *   return { fileId: id, url };
+   * }
+   * ```
+   */
+  upload?: FileUploader;
+
+  /**
+   * Maximum file size (bytes)
+   * @default 20971520 (20 MB)
+   */
+  maxFileSize?: number;
+
+  /**
+   * Maximum attachments per message
+   * @default 10
+   */
+  maxAttachments?: number;
+
+  /**
+   * Allowed MIME types (supports wildcards such as `image/*`)
+   * @default all types
+   */
+  allowedMimeTypes?: string[];
+}
+
+/**
+ * Tool call started by the assistant
+ */
+export interface ToolUseEvent {
+  /** Tool use ID (correlates with `ToolResultEvent.toolUseId`) */
+  id: string;
+
+  /** Conversation ID */
+  conversationId: string;
+
+  /** Tool name */
+  name: string;
+
+  /** Tool input (parsed JSON) */
+  input: unknown;
+
+  /** Parent tool use ID (set when called from within a sub-agent) */
+  parentToolUseId: string | null;
+
+  /** Turn ID (see `BaseMessage.turnId`) */
+  turnId?: string;
+
+  /** Server session ID */
+  sessionId?: string;
+}
+
+/**
+ * Result of a tool call
+ */
+export interface ToolResultEvent {
+  /** ID of the tool use this result belongs to */
+  toolUseId: string;
+
+  /** Conversation ID */
+  conversationId: string;
+
+  /** Tool output */
+  content: string;
+
+  /** Whether the tool call failed */
+  isError?: boolean;
+
+  /** Parent tool use ID (set when called from within a sub-agent) */
+  parentToolUseId: string | null;
+
+  /** Turn ID (see `BaseMessage.turnId`) */
+  turnId?: string;
+
+  /** Server session ID */
+  sessionId?: string;
+}
+
+/**
+ * Chat turn event (yielded by `ChatTurn`)
+ *
+ * - `text_delta` / `thinking_delta`: Streamed answer and reasoning increments
+ * - `tool_use` / `tool_result`: Tool activity
+ * - `media`: Media generated by a tool
+ * - `message`: Complete assistant message (one per model response)
+ * - `result`: Final result, always the last event of a turn
+ */
+export type TurnEvent =
+  | { type: 'text_delta'; text: string }
+  | { type: 'thinking_delta'; thinking: string }
+  | { type: 'tool_use'; toolUse: ToolUseEvent }
+  | { type: 'tool_result'; toolResult: ToolResultEvent }
+  | { type: 'media'; media: MediaResultEvent; message: AssistantMessage }
+  | { type: 'message'; message: AssistantMessage }
+  | { type: 'result'; message: AssistantMessage };
+
+/**
+ * Chat turn handle (returned by `chat.send`)
+ *
+ * Iterate it with `for await` to receive the turn's events. Iteration ends
+ * after the `result` event, and throws if the turn fails.
+ */
+export interface ChatTurn extends AsyncIterable<TurnEvent> {
+  /** Turn ID (`clientMessageId` of the user message) */
+  readonly turnId: string;
+
+  /** The sent user message */
+  readonly userMessage: Promise<UserMessage>;
+
+  /**
+   * Wait for the final result message
+   *
+   * Its `media` field collects all media generated during the turn.
+   */
+  finalMessage(): Promise<AssistantMessage>;
+
+  /**
+   * Abort the turn (sends `interrupt` to the server)
+   */
+  abort(): void;
 }
 
 /**
@@ -236,6 +843,23 @@ export type MessageCallback = (message: Message) => void;
  */
 export type Unsubscribe = () => void;
 
+/**
+ * Session information (from the server's `session_initialized` frame)
+ */
+export interface SessionInfo {
+  /** Conversation ID */
+  conversationId: string;
+
+  /** Application ID */
+  appId?: string;
+
+  /** Agent backend serving the session */
+  backend?: string;
+
+  /** Whether a turn is already in progress (e.g. after reconnecting mid-reply) */
+  isProcessing: boolean;
+}
+
 /**
  * System message data
  */
@@ -246,8 +870,54 @@ export interface SystemInfo {
   agents?: string[];
   tools?: string[];
   skills?: string[];
+  /** Tool permission mode of the runtime */
+  permissionMode?: string;
+  /** Slash commands available via `chat.runCommand` (e.g. `/compact`) */
+  slashCommands?: string[];
+  /** Connected MCP servers */
+  mcpServers?: unknown[];
+  /** Output style */
+  outputStyle?: string;
 }
 
+/**
+ * Tool permission request (agent asks before running a tool)
+ */
+export interface PermissionRequest {
+  /** Request ID */
+  requestId: string;
+  /** Conversation ID */
+  conversationId: string;
+  /** Tool name */
+  toolName: string;
+  /** Tool use ID (matches `ToolUseEvent.id`) */
+  toolUseId: string;
+  /** Tool input */
+  input: unknown;
+  /** Why confirmation is needed (server-provided, optional) */
+  reason?: string;
+  /** Turn ID (see `BaseMessage.turnId`) */
+  turnId?: string;
+  /** Server session ID */
+  sessionId?: string;
+  /** Parent tool use ID (set when called from within a sub-agent) */
+  parentToolUseId: string | null;
+}
+
+/**
+ * Answer to a permission request
+ */
+export type PermissionDecision = 'allow' | 'deny';
+
+/**
+ * Permission request handler
+ *
+ * Throwing (or rejecting) counts as `deny`.
+ */
+export type PermissionRequestHandler = (
+  request: PermissionRequest
+) => PermissionDecision | Promise<PermissionDecision>;
+
 /**
  * Stream message callbacks
  *
@@ -304,6 +974,16 @@ export interface StreamCallbacks {
    */
   onChunk?: (chunk: string) => void;
 
+  /**
+   * Thinking content incremental update
+   *
+   * Called for the model's reasoning, which is not passed to `onChunk`.
+   * The full reasoning is available as `AssistantMessage.thinking`.
+   *
+   * @param chunk - New thinking content (each increment)
+   */
+  onThinkingChunk?: (chunk: string) => void;
+
   /**
    * Stream message completion event
    *
@@ -324,6 +1004,9 @@ export interface StreamCallbacks {
   /**
    * Stream message error
    *
+   * Server `error` frames are passed as `APIError`, `SessionError` or
+   * `ToolExecutionError`, with the server's error code in `error.code`.
+   *
    * @param error - Error object
    */
   onError?: (error: Error) => void;
@@ -336,6 +1019,175 @@ export interface StreamCallbacks {
    * @param systemInfo - System information
    */
   onSystem?: (systemInfo: SystemInfo) => void;
+
+  /**
+   * Session initialized callback (optional)
+   *
+   * Called after each (re)connection once the server has initialized the session.
+   *
+   * @param sessionInfo - Session information
+   */
+  onSessionInitialized?: (sessionInfo: SessionInfo) => void;
+
+  /**
+   * Tool call callback (optional)
+   *
+   * Called once per tool call, after its input is complete.
+   *
+   * @param toolUse - Tool name, input and ID
+   */
+  onToolUse?: (toolUse: ToolUseEvent) => void;
+
+  /**
+   * Tool result callback (optional)
+   *
+   * Use `toolResult.toolUseId` to match the result with its `onToolUse` call.
+   *
+   * @param toolResult - Tool output
+   */
+  onToolResult?: (toolResult: ToolResultEvent) => void;
+
+  /**
+   * Turn result callback (optional)
+   *
+   * Called once per completed turn, including failed ones, with typed usage,
+   * cost and timing. Session totals are available via `chat.getUsage()`.
+   *
+   * @param result - Turn result
+   */
+  onResult?: (result: ResultInfo) => void;
+
+  /**
+   * Media result callback (optional)
+   *
+   * Called when a tool (e.g. image generation) produces media files.
+   * Use `media.toolUseId` to show them under the matching `onToolUse` call.
+   *
+   * @param media - Media items and the producing tool call
+   */
+  onMedia?: (media: MediaResultEvent) => void;
+
+  /**
+   * Permission denial callback (optional)
+   *
+   * Called for each tool call the runtime refused to run during a turn,
+   * whether denied by `onPermissionRequest` or by the permission mode.
+   *
+   * @param denial - Denied tool call
+   * @param result - Result of the turn it belongs to
+   */
+  onPermissionDenial?: (denial: PermissionDenial, result: ResultInfo) => void;
+}
+
+/**
+ * History loader
+ *
+ * Returns the earlier messages of a conversation, oldest first.
+ *
+ * @example
+ * ```ts
+ * const sdk = initConversationSdk({ environment: 'prod', token });
+ *
+ * const loadHistory = async (conversationId: string) => {
+ *   const { messages } = await sdk.getMessagesList(conversationId, { pageSize: 50 });
+ *   return messages.reverse().map((m) => ({
+ *     id: m.id,
+ *     conversationId,
+ *     role: m.role === 'user' ? 'user' : 'assistant',
+ *     content: m.content || '',
+ *     createdAt: m.timestamp * 1000,
+ *   }));
+ * };
+ * ```
+ */
+export type HistoryLoader = (conversationId: string) => Promise<Message[]>;
+
+/**
+ * Tool call status
+ *
+ * - `running`: Called, waiting for its result
+ * - `completed` / `failed`: Result received
+ * - `denied`: Refused by the permission handler or permission mode
+ */
+export type ToolActivityStatus = 'running' | 'completed' | 'failed' | 'denied';
+
+/**
+ * Tool call tracked by the chat store
+ */
+export interface ToolActivity {
+  /** Tool use ID */
+  id: string;
+
+  /** Tool name */
+  name: string;
+
+  /** Tool input (parsed JSON) */
+  input: unknown;
+
+  /** Current status */
+  status: ToolActivityStatus;
+
+  /** Tool output (once completed or failed) */
+  result?: string;
+
+  /** Media produced by the tool */
+  media?: MediaItem[];
+
+  /** Parent tool use ID (set when called from within a sub-agent) */
+  parentToolUseId: string | null;
+
+  /** Turn ID (see `BaseMessage.turnId`) */
+  turnId?: string;
+}
+
+/**
+ * Chat store state (immutable snapshot, replaced on every change)
+ */
+export interface ChatState {
+  /** Message list (media merged into the message with its tool call) */
+  messages: Message[];
+
+  /** Answer text streamed so far in the current model response */
+  streamingContent: string;
+
+  /** Reasoning streamed so far in the current model response */
+  streamingThinking: string;
+
+  /** A turn is in progress (from sending until its result) */
+  isStreaming: boolean;
+
+  /** History is being loaded */
+  isLoadingHistory: boolean;
+
+  /** Tool calls, in call order */
+  tools: ToolActivity[];
+
+  /** Connection state (`reconnecting` while the SDK retries) */
+  connectionState: ConnectionState;
+
+  /** Last connection, history, send or stream error */
+  error: Error | null;
+
+  /** Latest system information (model, tools, slash commands) */
+  systemInfo: SystemInfo | null;
+
+  /** Accumulated usage, cost and timing */
+  usage: SessionUsage;
+}
+
+/**
+ * Chat store options
+ */
+export interface ChatStoreOptions {
+  /**
+   * Load earlier messages on connect and reload
+   */
+  loadHistory?: HistoryLoader;
+
+  /**
+   * Logging configuration (silent by default)
+   */
+  logger?: LoggerOptions;
 }
 
 // ==========================================
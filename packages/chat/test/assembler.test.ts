@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { StreamAssembler } from '../src/internal/assembler';
+import type { StreamEventMessage } from '../src/internal/protocol';
+
+const event = (block: StreamEventMessage['event']): StreamEventMessage => ({ type: 'stream_event', event: block });
+
+describe('StreamAssembler', () => {
+  it('assembles text, thinking and tool blocks by index', () => {
+    const assembler = new StreamAssembler();
+    const updates = [
+      event({ type: 'message_start', message: { id: 'm1', model: 'claude' } } as StreamEventMessage['event']),
+      event({ type: 'content_block_start', index: 0, content_block: { type: 'thinking' } }),
+      event({ type: 'content_block_start', index: 1, content_block: { type: 'text' } }),
+      event({ type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'hmm' } }),
+      event({ type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Hel' } }),
+      event({ type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'lo' } }),
+      event({ type: 'content_block_start', index: 2, content_block: { type: 'tool_use', id: 't1', name: 'Read' } }),
+      event({ type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '{"path":' } }),
+      event({ type: 'content_block_delta', index: 2, delta: { type: 'input_json_delta', partial_json: '"a.ts"}' } }),
+      event({ type: 'content_block_stop', index: 2 }),
+      event({ type: 'message_stop' }),
+    ].flatMap((e) => assembler.handle(e, 'c1'));
+
+    expect(updates.find((u) => u.type === 'tool_use')).toMatchObject({
+      toolUse: { id: 't1', name: 'Read', input: { path: 'a.ts' } },
+    });
+
+    const message = updates.find((u) => u.type === 'message');
+    expect(message).toMatchObject({
+      message: { id: 'm1', content: 'Hello', thinking: 'hmm', conversationId: 'c1' },
+    });
+  });
+
+  it('keeps malformed tool input as a raw string and does not leak into the next message', () => {
+    const assembler = new StreamAssembler();
+    const first = [
+      event({ type: 'message_start', message: { id: 'm1' } } as StreamEventMessage['event']),
+      event({ type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 't1', name: 'Bash' } }),
+      event({ type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"cmd": "l' } }),
+      event({ type: 'content_block_stop', index: 0 }),
+      event({ type: 'message_stop' }),
+    ].flatMap((e) => assembler.handle(e, 'c1'));
+
+    expect(first.find((u) => u.type === 'tool_use')).toMatchObject({ toolUse: { input: '{"cmd": "l' } });
+
+    const second = [
+      event({ type: 'message_start', message: { id: 'm2' } } as StreamEventMessage['event']),
+      event({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'ok' } }),
+      event({ type: 'message_stop' }),
+    ].flatMap((e) => assembler.handle(e, 'c1'));
+
+    const message = second.find((u) => u.type === 'message');
+    expect(message?.type === 'message' && message.message.parts).toEqual([{ type: 'text', text: 'ok' }]);
+  });
+
+  it('emits a message when a text block stops without message_start', () => {
+    const assembler = new StreamAssembler();
+    const updates = [
+      event({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'hi' } }),
+      event({ type: 'content_block_stop', index: 0 }),
+    ].flatMap((e) => assembler.handle(e, 'c1'));
+
+    expect(updates.map((u) => u.type)).toEqual(['text_delta', 'message']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest';
+import { detectMimeType, uploadAttachments } from '../src/internal/attachments';
+import { AttachmentError } from '../src/errors';
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const WEBP = [0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50];
+
+const upload = () => vi.fn(async (_blob: Blob, info: { filename: string }) => ({ fileId: `id-${info.filename}` }));
+
+describe('detectMimeType', () => {
+  it('prefers the file extension', async () => {
+    expect(await detectMimeType(new Blob([new Uint8Array(PNG)]), 'report.PDF')).toBe('application/pdf');
+  });
+
+  it('sniffs the content when the extension is unknown', async () => {
+    expect(await detectMimeType(new Blob([new Uint8Array(PNG)]), 'upload')).toBe('image/png');
+    expect(await detectMimeType(new Blob([new Uint8Array(WEBP)]), 'upload.bin')).toBe('image/webp');
+    expect(await detectMimeType(new Blob(['plain']), 'upload')).toBe('application/octet-stream');
+  });
+});
+
+describe('uploadAttachments', () => {
+  it('uploads each file and maps it to the protocol format', async () => {
+    const uploader = upload();
+
+    const result = await uploadAttachments(
+      [{ data: new Uint8Array(PNG), filename: 'pixel' }, new Blob(['hello'], { type: 'text/plain' })],
+      { upload: uploader }
+    );
+
+    expect(result.attachments).toEqual([
+      { type: 'image', fileId: 'id-pixel', filename: 'pixel', mimeType: 'image/png', size: 8 },
+      { type: 'file', fileId: 'id-attachment-2', filename: 'attachment-2', mimeType: 'text/plain', size: 5 },
+    ]);
+    expect(result.data[0]).toEqual({
+      attachment_type: 'image',
+      file_id: 'id-pixel',
+      filename: 'pixel',
+      mime_type: 'image/png',
+      size: 8,
+    });
+    expect(uploader.mock.calls[0][0].type).toBe('image/png');
+  });
+
+  it('validates every file before uploading any', async () => {
+    const uploader = upload();
+
+    const attempt = uploadAttachments(
+      [
+        { data: new Uint8Array(PNG), filename: 'ok.png' },
+        { data: new Uint8Array(16), filename: 'big.png' },
+      ],
+      { upload: uploader, maxFileSize: 10 }
+    );
+
+    await expect(attempt).rejects.toMatchObject({ name: 'AttachmentError', filename: 'big.png' });
+    expect(uploader).not.toHaveBeenCalled();
+  });
+
+  it('enforces the attachment count and MIME allow list', async () => {
+    const files = [{ data: new Uint8Array(PNG), filename: 'a.png' }, { data: new Blob(['text']), filename: 'b.txt' }];
+
+    await expect(uploadAttachments(files, { upload: upload(), maxAttachments: 1 })).rejects.toThrow('Too many attachments');
+    await expect(uploadAttachments(files, { upload: upload(), allowedMimeTypes: ['image/*'] })).rejects.toThrow(
+      'File type "text/plain" is not allowed'
+    );
+  });
+
+  it('requires an uploader and wraps upload failures', async () => {
+    const file = { data: new Uint8Array(PNG), filename: 'a.png' };
+
+    await expect(uploadAttachments([file], {})).rejects.toBeInstanceOf(AttachmentError);
+    await expect(
+      uploadAttachments([file], { upload: async () => Promise.reject(new Error('quota exceeded')) })
+    ).rejects.toMatchObject({ message: 'quota exceeded', filename: 'a.png' });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { TurnTracker } from '../src/internal/correlation';
+import type { ServerMessage } from '../src/internal/protocol';
+
+const chunk: ServerMessage = { type: 'stream_event', event: { type: 'message_start' } };
+const result = { type: 'result', subtype: 'success', result: '', session_id: 's', uuid: 'u' } as ServerMessage;
+const error: ServerMessage = { type: 'error', error: 'boom' };
+
+describe('TurnTracker', () => {
+  it('attributes untagged frames to the oldest open turn and ends it on result', () => {
+    const tracker = new TurnTracker();
+    tracker.begin('a');
+    tracker.begin('b');
+
+    expect(tracker.resolve(chunk).turnId).toBe('a');
+    expect(tracker.resolve(result).turnId).toBe('a');
+    expect(tracker.resolve(chunk).turnId).toBe('b');
+  });
+
+  it('prefers the echoed client_message_id', () => {
+    const tracker = new TurnTracker();
+    tracker.begin('a');
+    tracker.begin('b');
+
+    expect(tracker.resolve({ ...chunk, client_message_id: 'b' } as ServerMessage).turnId).toBe('b');
+  });
+
+  it('ends a turn on error', () => {
+    const tracker = new TurnTracker();
+    tracker.begin('a');
+    tracker.begin('b');
+
+    expect(tracker.resolve(error).turnId).toBe('a');
+    expect(tracker.resolve(chunk).turnId).toBe('b');
+  });
+
+  it('ends an interrupted turn when the next message is sent without a result', () => {
+    const tracker = new TurnTracker();
+    tracker.begin('a');
+    tracker.interrupt();
+    tracker.begin('b');
+
+    expect(tracker.resolve(chunk).turnId).toBe('b');
+  });
+
+  it('ends an interrupted turn on its result', () => {
+    const tracker = new TurnTracker();
+    tracker.begin('a');
+    tracker.interrupt();
+
+    expect(tracker.resolve(result).turnId).toBe('a');
+    expect(tracker.resolve(chunk).turnId).toBeUndefined();
+  });
+
+  it('forgets all turns on clear', () => {
+    const tracker = new TurnTracker();
+    tracker.begin('a');
+    tracker.clear();
+
+    expect(tracker.resolve(chunk).turnId).toBeUndefined();
+  });
+
+  it('leaves the turn running when an untagged error answers a session request', () => {
+    const tracker = new TurnTracker();
+    tracker.begin('a');
+
+    expect(tracker.resolve(error, true).turnId).toBeUndefined();
+    expect(tracker.resolve(chunk).turnId).toBe('a');
+    expect(tracker.resolve({ ...error, client_message_id: 'a' } as ServerMessage, true).turnId).toBe('a');
+    expect(tracker.resolve(chunk).turnId).toBeUndefined();
+  });
+
+  it('defers aborting a queued turn until it starts', () => {
+    const tracker = new TurnTracker();
+    tracker.begin('a');
+    tracker.begin('b');
+
+    expect(tracker.abort('a')).toBe('running');
+    expect(tracker.abort('b')).toBe('queued');
+    expect(tracker.abort('c')).toBe('unknown');
+    expect(tracker.takeDeferred()).toBe(false);
+
+    tracker.resolve(result);
+    expect(tracker.takeDeferred()).toBe(true);
+    expect(tracker.takeDeferred()).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { createChat } from '../src/index';
+import type { ChatConfig, WebSocketLike } from '../src/types';
+
+/**
+ * Scriptable WebSocket double
+ */
+export class FakeSocket implements WebSocketLike {
+  readyState = 0;
+  sent: Array<Record<string, unknown>> = [];
+  onopen: WebSocketLike['onopen'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    if (this.readyState === 3) return;
+    this.readyState = 3;
+    this.onclose?.({ code: 1000, reason: '' });
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  receive(frame: Record<string, unknown>): void {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+
+  initialize(): void {
+    this.open();
+    this.receive({ type: 'session_initialized', conversation_id: 'c1', app_id: 'a1' });
+  }
+
+  /** Sent frames of one type */
+  sentOf(type: string): Array<Record<string, unknown>> {
+    return this.sent.filter((frame) => frame.type === type);
+  }
+}
+
+/**
+ * Connected chat client on a fake socket
+ */
+export async function connectChat(config: Partial<ChatConfig> = {}) {
+  const sockets: FakeSocket[] = [];
+  const chat = createChat({
+    apiURL: 'https://api.example.test',
+    conversationId: 'c1',
+    appId: 'a1',
+    token: 'token',
+    heartbeat: { interval: 60_000 },
+    ...config,
+    webSocketFactory: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+  });
+
+  const connected = chat.connect();
+  sockets[0].initialize();
+  await connected;
+
+  return { chat, socket: sockets[0], sockets };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createLogger } from '../src/internal/logger';
+import { createLogger as createConversationLogger } from '../../conversation/src/logging/logger';
+
+function capture(create: typeof createLogger = createLogger) {
+  const output = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  const logger = create({ level: 'debug', output }, 'sealink:test');
+  return { logger, output };
+}
+
+/**
+ * Log calls exercising every redaction rule
+ */
+const samples: Array<[string, ...unknown[]]> = [
+  ['GET /ws?conversation_id=c1&token=t&url_session_token=u', { urlSessionToken: 'u', session_token: 's' }],
+  ['Authorization: Bearer abc.def', { headers: { Authorization: 'Bearer abc', 'x-session-token': 'x' } }],
+  ['Message', { content: 'hello', text: 'hi', result: { ok: true }, input_tokens: 3, password: 'p' }],
+  ['Failed', new Error('refused: ?access_token=a')],
+  ['Config', [{ apiKey: 'k', api_key: 'k', client_secret: 'c', nested: { idToken: 'i' } }]],
+];
+
+describe('createLogger', () => {
+  it('redacts credential keys', () => {
+    const { logger, output } = capture();
+
+    logger.info('Connect', { token: 't', access_token: 'a', refreshToken: 'r', apiKey: 'k' });
+
+    expect(output.info).toHaveBeenCalledWith('[sealink:test] Connect', {
+      token: '[REDACTED]',
+      access_token: '[REDACTED]',
+      refreshToken: '[REDACTED]',
+      apiKey: '[REDACTED]',
+    });
+  });
+
+  it('redacts session tokens', () => {
+    const { logger, output } = capture();
+
+    logger.debug('Session', {
+      url_session_token: 'u',
+      urlSessionToken: 'u',
+      session_token: 's',
+      headers: { 'x-session-token': 'x' },
+    });
+    logger.debug('GET wss://example.test/ws?session_token=s&conversation_id=c1');
+
+    expect(output.debug).toHaveBeenNthCalledWith(1, '[sealink:test] Session', {
+      url_session_token: '[REDACTED]',
+      urlSessionToken: '[REDACTED]',
+      session_token: '[REDACTED]',
+      headers: { 'x-session-token': '[REDACTED]' },
+    });
+    expect(output.debug).toHaveBeenNthCalledWith(
+      2,
+      '[sealink:test] GET wss://example.test/ws?session_token=[REDACTED]&conversation_id=c1'
+    );
+  });
+
+  it('keeps token counts readable', () => {
+    const { logger, output } = capture();
+
+    logger.debug('Usage', { input_tokens: 12, output_tokens: 34, cache_read_input_tokens: 5 });
+
+    expect(output.debug).toHaveBeenCalledWith('[sealink:test] Usage', {
+      input_tokens: 12,
+      output_tokens: 34,
+      cache_read_input_tokens: 5,
+    });
+  });
+
+  it('redacts exactly like the conversation SDK copy', () => {
+    const chat = capture();
+    const conversation = capture(createConversationLogger);
+
+    samples.forEach(([message, ...args]) => {
+      chat.logger.info(message, ...args);
+      conversation.logger.info(message, ...args);
+    });
+
+    expect(chat.output.info.mock.calls).toEqual(conversation.output.info.mock.calls);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mergeMediaMessage } from '../src/index';
+import { inferMediaMimeType } from '../src/internal/media';
+import type { AssistantMessage, MediaItem, Message } from '../src/types';
+import { connectChat } from './fake-socket';
+
+const image: MediaItem = {
+  kind: 'image',
+  url: 'https://cdn.example.test/cat.png',
+  mimeType: 'image/png',
+  toolUseId: 't1',
+};
+
+const toolCall: AssistantMessage = {
+  id: 'm1',
+  conversationId: 'c1',
+  role: 'assistant',
+  content: 'Drawing a cat.',
+  createdAt: 1,
+  parts: [
+    { type: 'text', text: 'Drawing a cat.' },
+    { type: 'tool_use', id: 't1', name: 'generate_image', input: {} },
+  ],
+};
+
+const mediaMessage = (toolUseId: string): AssistantMessage => ({
+  id: `media-${toolUseId}`,
+  conversationId: 'c1',
+  role: 'assistant',
+  content: '',
+  createdAt: 2,
+  toolUseId,
+  media: [{ ...image, toolUseId }],
+});
+
+describe('media results', () => {
+  it('emits typed media items tied to their tool call', async () => {
+    const { chat, socket } = await connectChat();
+    const onMedia = vi.fn();
+    chat.onMessage(() => {}, { onMedia });
+
+    socket.receive({
+      type: 'media_result',
+      tool_use_id: 't1',
+      media: {
+        images: ['https://cdn.example.test/cat.png?sig=1'],
+        videos: ['https://cdn.example.test/clip'],
+        audios: [],
+      },
+    });
+
+    expect(onMedia).toHaveBeenCalledWith(
+      expect.objectContaining({
+        toolUseId: 't1',
+        conversationId: 'c1',
+        items: [
+          { kind: 'image', url: 'https://cdn.example.test/cat.png?sig=1', mimeType: 'image/png', toolUseId: 't1' },
+          { kind: 'video', url: 'https://cdn.example.test/clip', mimeType: 'video/*', toolUseId: 't1' },
+        ],
+      })
+    );
+  });
+
+  it('infers the MIME type from the path only', () => {
+    expect(inferMediaMimeType('https://cdn.example.test/a.MP3#t=1', 'audio')).toBe('audio/mpeg');
+    expect(inferMediaMimeType('https://cdn.example.test/v1.2/file?name=a.png', 'image')).toBe('image/*');
+  });
+
+  it('merges media into the assistant message that made the tool call', () => {
+    const user: Message = { id: 'u1', conversationId: 'c1', role: 'user', content: 'Draw a cat', createdAt: 0 };
+    const messages = mergeMediaMessage([user, toolCall], mediaMessage('t1'));
+
+    expect(messages).toHaveLength(2);
+    const merged = messages[1] as AssistantMessage;
+    expect(merged.media).toEqual([image]);
+    expect(merged.parts?.[1]).toEqual({
+      type: 'tool_use',
+      id: 't1',
+      name: 'generate_image',
+      input: {},
+      media: [image],
+    });
+    // The input list is left untouched
+    expect(toolCall.media).toBeUndefined();
+  });
+
+  it('appends media without a matching tool call', () => {
+    const media = mediaMessage('t2');
+
+    expect(mergeMediaMessage([toolCall], media)).toEqual([toolCall, media]);
+  });
+
+  it('appends other messages unchanged', () => {
+    const reply: Message = { ...toolCall, id: 'm2', parts: undefined };
+
+    expect(mergeMediaMessage([toolCall], reply)).toEqual([toolCall, reply]);
+  });
+});
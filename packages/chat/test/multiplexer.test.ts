@@ -0,0 +1,198 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SocketMultiplexer } from '../src/internal/multiplexer';
+import { STALE_CLOSE_CODE } from '../src/internal/transport';
+import type { WebSocketLike } from '../src/types';
+
+/**
+ * Shared socket double
+ */
+class FakeSocket implements WebSocketLike {
+  readyState = 1;
+  sent: Array<Record<string, unknown>> = [];
+  onopen: WebSocketLike['onopen'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close(): void {
+    this.readyState = 3;
+  }
+
+  receive(frame: Record<string, unknown>): void {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+}
+
+function setup(conversationIds: string[]) {
+  const sockets: FakeSocket[] = [];
+  const socket = new FakeSocket();
+  const multiplexer = new SocketMultiplexer(() => {
+    const created = sockets.length === 0 ? socket : new FakeSocket();
+    sockets.push(created);
+    return created;
+  });
+  const received = new Map<string, Array<Record<string, unknown>>>();
+
+  const channels = conversationIds.map((conversationId) => {
+    const channel = multiplexer.factory('wss://example.test', {});
+    const frames: Array<Record<string, unknown>> = [];
+    received.set(conversationId, frames);
+    channel.onmessage = (event) => frames.push(JSON.parse(event.data));
+    channel.send(JSON.stringify({ type: 'init_session', conversation_id: conversationId }));
+    socket.receive({ type: 'session_initialized', conversation_id: conversationId });
+    frames.length = 0;
+    return channel;
+  });
+
+  return { socket, sockets, multiplexer, channels, received };
+}
+
+const user = (conversationId: string, clientMessageId: string) =>
+  JSON.stringify({ type: 'user', conversation_id: conversationId, client_message_id: clientMessageId });
+
+const streamEvent = { type: 'stream_event', event: { type: 'content_block_delta' } };
+
+describe('SocketMultiplexer', () => {
+  it('routes tagged frames by conversation_id', () => {
+    const { socket, received } = setup(['a', 'b']);
+
+    socket.receive({ type: 'assistant', conversation_id: 'b' });
+
+    expect(received.get('a')).toEqual([]);
+    expect(received.get('b')).toHaveLength(1);
+  });
+
+  it('holds back a second turn until the first one finishes', () => {
+    const { socket, channels } = setup(['a', 'b']);
+    socket.sent = [];
+
+    channels[0].send(user('a', 'm1'));
+    channels[1].send(user('b', 'm2'));
+    expect(socket.sent.map((frame) => frame.client_message_id)).toEqual(['m1']);
+
+    socket.receive({ type: 'result', subtype: 'success' });
+    expect(socket.sent.map((frame) => frame.client_message_id)).toEqual(['m1', 'm2']);
+  });
+
+  it('delivers untagged stream frames to the running turn only', () => {
+    const { socket, channels, received } = setup(['a', 'b']);
+
+    channels[0].send(user('a', 'm1'));
+    channels[1].send(user('b', 'm2'));
+    socket.receive(streamEvent);
+    socket.receive({ type: 'result', subtype: 'success' });
+    socket.receive(streamEvent);
+
+    expect(received.get('a')!.map((frame) => frame.type)).toEqual(['stream_event', 'result']);
+    expect(received.get('b')!.map((frame) => frame.type)).toEqual(['stream_event']);
+  });
+
+  it('drops untagged frames nobody is waiting for', () => {
+    const { socket, received } = setup(['a', 'b']);
+
+    socket.receive(streamEvent);
+    socket.receive({ type: 'error', error: 'boom' });
+
+    expect(received.get('a')).toEqual([]);
+    expect(received.get('b')).toEqual([]);
+  });
+
+  it('delivers untagged frames to the only channel', () => {
+    const { socket, received } = setup(['a']);
+
+    socket.receive(streamEvent);
+
+    expect(received.get('a')).toHaveLength(1);
+  });
+
+  it('cancels a held-back turn on interrupt', () => {
+    const { socket, channels } = setup(['a', 'b']);
+    socket.sent = [];
+
+    channels[0].send(user('a', 'm1'));
+    channels[1].send(user('b', 'm2'));
+    channels[1].send(JSON.stringify({ type: 'interrupt', conversation_id: 'b' }));
+    socket.receive({ type: 'result', conversation_id: 'a', subtype: 'success' });
+
+    expect(socket.sent.map((frame) => frame.type)).toEqual(['user']);
+  });
+
+  it('releases an interrupted turn that never gets a result', async () => {
+    vi.useFakeTimers();
+    const { socket, channels } = setup(['a', 'b']);
+    socket.sent = [];
+
+    channels[0].send(user('a', 'm1'));
+    channels[0].send(JSON.stringify({ type: 'interrupt', conversation_id: 'a' }));
+    channels[1].send(user('b', 'm2'));
+    expect(socket.sent.map((frame) => frame.type)).toEqual(['user', 'interrupt']);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(socket.sent.map((frame) => frame.client_message_id)).toEqual(['m1', undefined, 'm2']);
+    vi.useRealTimers();
+  });
+
+  it('ends an interrupted turn when its conversation sends again', () => {
+    const { socket, channels } = setup(['a', 'b']);
+    socket.sent = [];
+
+    channels[0].send(user('a', 'm1'));
+    channels[1].send(user('b', 'm2'));
+    channels[0].send(JSON.stringify({ type: 'interrupt', conversation_id: 'a' }));
+    channels[0].send(user('a', 'm3'));
+    expect(socket.sent.map((frame) => frame.client_message_id)).toEqual(['m1', undefined, 'm2']);
+
+    socket.receive({ type: 'result', conversation_id: 'b', subtype: 'success' });
+    expect(socket.sent.map((frame) => frame.client_message_id)).toEqual(['m1', undefined, 'm2', 'm3']);
+  });
+
+  it('sends the next turn when the running one is detached', () => {
+    const { socket, channels } = setup(['a', 'b', 'c']);
+    socket.sent = [];
+
+    channels[0].send(user('a', 'm1'));
+    channels[1].send(user('b', 'm2'));
+    channels[0].close();
+
+    expect(socket.sent.map((frame) => frame.client_message_id)).toEqual(['m1', 'm2']);
+  });
+
+  it('starts a new heartbeat round when the previous one went unanswered', () => {
+    const { socket, channels } = setup(['a', 'b']);
+    socket.sent = [];
+    const heartbeat = JSON.stringify({ type: 'heartbeat' });
+
+    channels[0].send(heartbeat);
+    channels[1].send(heartbeat);
+    expect(socket.sent).toHaveLength(1);
+
+    // No answer: the next interval's heartbeat is sent again
+    channels[0].send(heartbeat);
+    expect(socket.sent).toHaveLength(2);
+
+    socket.receive({ type: 'pong' });
+    channels[1].send(heartbeat);
+    expect(socket.sent).toHaveLength(3);
+  });
+
+  it('recycles the shared socket when a channel goes stale', async () => {
+    vi.useFakeTimers();
+    const { socket, sockets, multiplexer, channels } = setup(['a', 'b']);
+    const closed = vi.fn();
+    channels[1].onclose = closed;
+
+    channels[0].close(STALE_CLOSE_CODE, 'Heartbeat timeout');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(socket.readyState).toBe(3);
+    expect(closed).toHaveBeenCalledWith({ code: STALE_CLOSE_CODE, reason: 'Heartbeat timeout' });
+
+    multiplexer.factory('wss://example.test', {});
+    expect(sockets).toHaveLength(2);
+    vi.useRealTimers();
+  });
+});
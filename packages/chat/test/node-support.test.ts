@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createChat } from '../src/index';
+import { ConnectionError } from '../src/errors';
+import { defaultWebSocketFactory } from '../src/internal/transport';
+import type { ChatConfig, WebSocketFactoryOptions } from '../src/types';
+import { FakeSocket, connectChat } from './fake-socket';
+
+/**
+ * Connect through a recording factory
+ */
+async function connectWith(config: Partial<ChatConfig>) {
+  const calls: Array<{ url: string; options: WebSocketFactoryOptions }> = [];
+  const sockets: FakeSocket[] = [];
+  const chat = createChat({
+    apiURL: 'https://api.example.test',
+    baseURL: 'https://ws.example.test',
+    conversationId: 'c1',
+    appId: 'a1',
+    token: 'secret',
+    heartbeat: { interval: 60_000 },
+    webSocketFactory: (url, options) => {
+      calls.push({ url, options });
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    ...config,
+  });
+
+  const connected = chat.connect();
+  sockets[0].initialize();
+  await connected;
+  await chat.disconnect();
+
+  return calls;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Node.js support', () => {
+  it('sends the token in the query by default', async () => {
+    const calls = await connectWith({});
+
+    expect(calls).toEqual([{ url: 'wss://ws.example.test/ws?token=secret', options: {} }]);
+  });
+
+  it('sends the token as an Authorization header', async () => {
+    const calls = await connectWith({ authTransport: 'header' });
+
+    expect(calls).toEqual([
+      {
+        url: 'wss://ws.example.test/ws',
+        options: { headers: { Authorization: 'Bearer secret' } },
+      },
+    ]);
+  });
+
+  it('sends the token as a subprotocol', async () => {
+    const calls = await connectWith({ authTransport: 'subprotocol' });
+
+    expect(calls).toEqual([
+      { url: 'wss://ws.example.test/ws', options: { protocols: ['bearer', 'secret'] } },
+    ]);
+  });
+
+  it('leaves a complete wsURL untouched', async () => {
+    const calls = await connectWith({
+      authTransport: 'header',
+      wsURL: 'wss://custom.example.test/ws?token=own',
+    });
+
+    expect(calls).toEqual([{ url: 'wss://custom.example.test/ws?token=own', options: {} }]);
+  });
+
+  it('reads Buffer and ArrayBuffer frames', async () => {
+    const { chat, socket } = await connectChat();
+    const onChunk = vi.fn();
+    chat.onMessage(() => {}, { onChunk });
+    const frame = (text: string) =>
+      new TextEncoder().encode(
+        JSON.stringify({
+          type: 'stream_event',
+          event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+        })
+      );
+
+    socket.onmessage?.({ data: frame('Hello') });
+    socket.onmessage?.({ data: frame(' world').buffer });
+
+    expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual(['Hello', ' world']);
+  });
+
+  it('asks for a factory when there is no global WebSocket', () => {
+    vi.stubGlobal('WebSocket', undefined);
+
+    expect(() => defaultWebSocketFactory('wss://ws.example.test/ws', {})).toThrow(ConnectionError);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { Outbox } from '../src/internal/outbox';
+import type { FrameCallback, WebSocketTransport } from '../src/internal/transport';
+import type { ServerMessage } from '../src/internal/protocol';
+import type { ConnectionState, UserMessage } from '../src/types';
+
+/**
+ * Minimal transport double: records sends and lets tests push frames/state
+ */
+function createTransport() {
+  let frameListener: FrameCallback = () => {};
+  let stateListener: (state: ConnectionState) => void = () => {};
+
+  const transport = {
+    connected: true,
+    sent: [] as string[],
+    isConnected: () => transport.connected,
+    sendUserMessage: (_conversationId: string, _content: string, _attachments: unknown, clientMessageId?: string) => {
+      if (!transport.connected) throw new Error('WebSocket not connected');
+      transport.sent.push(clientMessageId!);
+    },
+    onFrame: (callback: FrameCallback) => {
+      frameListener = callback;
+      return () => {};
+    },
+    onStateChange: (callback: (state: ConnectionState) => void) => {
+      stateListener = callback;
+      return () => {};
+    },
+    frame: (frame: ServerMessage, turnId?: string) => frameListener(frame, { turnId }),
+    state: (state: ConnectionState) => stateListener(state),
+  };
+
+  return transport;
+}
+
+const message = (clientMessageId: string): UserMessage => ({
+  id: `msg_${clientMessageId}`,
+  conversationId: 'c1',
+  role: 'user',
+  content: 'hi',
+  createdAt: 0,
+  clientMessageId,
+});
+
+function setup(queueOfflineMessages: boolean) {
+  const transport = createTransport();
+  const outbox = new Outbox(transport as unknown as WebSocketTransport, queueOfflineMessages);
+  const statuses: string[] = [];
+  outbox.onStatusChange((msg) => statuses.push(`${msg.clientMessageId}:${msg.status}`));
+  return { transport, outbox, statuses };
+}
+
+describe('Outbox', () => {
+  it('marks a message sent on message_ack', () => {
+    const { transport, outbox, statuses } = setup(false);
+    expect(outbox.send(message('a')).status).toBe('pending');
+
+    transport.frame({ type: 'message_ack', client_message_id: 'a' });
+    expect(statuses).toEqual(['a:sent']);
+  });
+
+  it('marks a message sent on the first response frame of its turn, however late', () => {
+    const { transport, outbox, statuses } = setup(false);
+    outbox.send(message('a'));
+    outbox.send(message('b'));
+
+    transport.frame({ type: 'stream_event', event: { type: 'message_start' } }, 'b');
+    expect(statuses).toEqual(['b:sent']);
+  });
+
+  it('only fails a message on errors that name it', () => {
+    const { transport, outbox, statuses } = setup(false);
+    outbox.send(message('a'));
+
+    transport.frame({ type: 'error', error: 'rate limited' }, 'a');
+    expect(statuses).toEqual([]);
+
+    transport.frame({ type: 'error', error: 'bad message', client_message_id: 'a' });
+    expect(statuses).toEqual(['a:failed']);
+  });
+
+  it('keeps queued messages on close and sends them after reconnecting', () => {
+    const { transport, outbox, statuses } = setup(true);
+    transport.connected = false;
+    outbox.send(message('a'));
+
+    transport.state('closed');
+    expect(statuses).toEqual([]);
+
+    transport.connected = true;
+    transport.state('open');
+    expect(transport.sent).toEqual(['a']);
+  });
+
+  it('re-queues in-flight messages on disconnect when queueing is enabled', () => {
+    const { transport, outbox, statuses } = setup(true);
+    outbox.send(message('a'));
+    transport.state('reconnecting');
+    transport.state('open');
+
+    expect(transport.sent).toEqual(['a', 'a']);
+    expect(statuses).toEqual([]);
+  });
+
+  it('fails unacknowledged messages on disconnect when queueing is disabled', () => {
+    const { transport, outbox, statuses } = setup(false);
+    outbox.send(message('a'));
+    transport.state('closed');
+
+    expect(statuses).toEqual(['a:failed']);
+  });
+
+  it('throws when disconnected and queueing is disabled', () => {
+    const { transport, outbox } = setup(false);
+    transport.connected = false;
+    expect(() => outbox.send(message('a'))).toThrow('WebSocket not connected');
+  });
+});
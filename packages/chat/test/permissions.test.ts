@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { connectChat } from './fake-socket';
+
+const request = {
+  type: 'permission_request',
+  request_id: 'p1',
+  tool_name: 'Bash',
+  tool_use_id: 't1',
+  tool_input: { command: 'ls' },
+  reason: 'Bash requires confirmation',
+};
+
+/** Let the async handler settle */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('permission requests', () => {
+  it('answers with the decision of the handler', async () => {
+    const { chat, socket } = await connectChat();
+    const handler = vi.fn(async () => 'allow' as const);
+    chat.onPermissionRequest(handler);
+
+    socket.receive(request);
+    await flush();
+
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestId: 'p1',
+        conversationId: 'c1',
+        toolName: 'Bash',
+        toolUseId: 't1',
+        input: { command: 'ls' },
+        reason: 'Bash requires confirmation',
+      })
+    );
+    expect(socket.sentOf('permission_response')).toEqual([
+      { type: 'permission_response', request_id: 'p1', tool_use_id: 't1', decision: 'allow' },
+    ]);
+  });
+
+  it('denies when no handler is registered', async () => {
+    const { chat, socket } = await connectChat();
+    const unsubscribe = chat.onPermissionRequest(() => 'allow');
+    unsubscribe();
+
+    socket.receive(request);
+    await flush();
+
+    expect(socket.sentOf('permission_response')).toEqual([
+      {
+        type: 'permission_response',
+        request_id: 'p1',
+        tool_use_id: 't1',
+        decision: 'deny',
+        message: 'No permission handler registered',
+      },
+    ]);
+  });
+
+  it('denies when the handler throws', async () => {
+    const { chat, socket } = await connectChat();
+    chat.onPermissionRequest(() => {
+      throw new Error('user closed the dialog');
+    });
+
+    socket.receive(request);
+    await flush();
+
+    expect(socket.sentOf('permission_response')).toEqual([
+      expect.objectContaining({ decision: 'deny', message: 'user closed the dialog' }),
+    ]);
+  });
+
+  it('reports denied tool calls of the turn result', async () => {
+    const { chat, socket } = await connectChat();
+    const onPermissionDenial = vi.fn();
+    chat.onMessage(() => {}, { onPermissionDenial });
+
+    socket.receive({
+      type: 'result',
+      subtype: 'success',
+      result: '',
+      session_id: 's1',
+      uuid: 'r1',
+      permission_denials: [{ tool_name: 'Bash', tool_use_id: 't1', tool_input: { command: 'ls' } }],
+    });
+
+    expect(onPermissionDenial).toHaveBeenCalledWith(
+      { toolName: 'Bash', toolUseId: 't1', toolInput: { command: 'ls' } },
+      expect.objectContaining({ id: 'r1' })
+    );
+  });
+});
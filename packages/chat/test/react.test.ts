@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createElement } from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+import { useChat, type UseChatConfig, type UseChatReturn } from '../src/react';
+import type { Message } from '../src/types';
+import { FakeSocket } from './fake-socket';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+/**
+ * Render useChat on fake sockets
+ */
+function renderChat(config: Partial<UseChatConfig> = {}) {
+  const sockets: FakeSocket[] = [];
+  const result: { current: UseChatReturn } = {} as { current: UseChatReturn };
+  const base: UseChatConfig = {
+    apiURL: 'https://api.example.test',
+    conversationId: 'c1',
+    appId: 'a1',
+    token: 'token',
+    heartbeat: { interval: 60_000 },
+    webSocketFactory: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+  };
+
+  function Probe(props: { config: UseChatConfig }) {
+    result.current = useChat(props.config);
+    return null;
+  }
+
+  let renderer!: ReactTestRenderer;
+  act(() => {
+    renderer = create(createElement(Probe, { config: { ...base, ...config } }));
+  });
+
+  return {
+    result,
+    sockets,
+    rerender(next: Partial<UseChatConfig>) {
+      act(() => {
+        renderer.update(createElement(Probe, { config: { ...base, ...config, ...next } }));
+      });
+    },
+    unmount() {
+      act(() => renderer.unmount());
+    },
+  };
+}
+
+/** Initialize the latest socket and let the connection settle */
+async function initialize(sockets: FakeSocket[]) {
+  await act(async () => {
+    sockets[sockets.length - 1].initialize();
+  });
+  return sockets[sockets.length - 1];
+}
+
+/** History per conversation that resolves when the test says so */
+function deferredHistory() {
+  const pending = new Map<string, (messages: Message[]) => void>();
+  return {
+    loadHistory: (conversationId: string) =>
+      new Promise<Message[]>((resolve) => pending.set(conversationId, resolve)),
+    resolve: (conversationId: string, messages: Message[]) =>
+      act(async () => pending.get(conversationId)!(messages)),
+  };
+}
+
+const assistant = (id: string, conversationId: string, content: string): Message => ({
+  id,
+  conversationId,
+  role: 'assistant',
+  content,
+  createdAt: 0,
+});
+
+let cleanup: (() => void) | undefined;
+
+afterEach(() => {
+  cleanup?.();
+  cleanup = undefined;
+});
+
+describe('useChat', () => {
+  it('loads history and keeps messages received meanwhile', async () => {
+    const history = deferredHistory();
+    const chat = renderChat({ loadHistory: history.loadHistory });
+    cleanup = chat.unmount;
+    const socket = await initialize(chat.sockets);
+    expect(chat.result.current.isLoadingHistory).toBe(true);
+
+    act(() => {
+      socket.receive({ type: 'assistant', content: [{ type: 'text', text: 'Live' }] });
+    });
+    await history.resolve('c1', [assistant('old', 'c1', 'Earlier')]);
+
+    expect(chat.result.current.isLoadingHistory).toBe(false);
+    expect(chat.result.current.messages.map((msg) => msg.content)).toEqual(['Earlier', 'Live']);
+  });
+
+  it('resets on a conversation change and drops the old history', async () => {
+    const history = deferredHistory();
+    const chat = renderChat({ loadHistory: history.loadHistory });
+    cleanup = chat.unmount;
+    await initialize(chat.sockets);
+
+    chat.rerender({ conversationId: 'c2' });
+    await initialize(chat.sockets);
+    await history.resolve('c1', [assistant('old', 'c1', 'From c1')]);
+    expect(chat.result.current.messages).toEqual([]);
+
+    await history.resolve('c2', [assistant('new', 'c2', 'From c2')]);
+    expect(chat.result.current.messages.map((msg) => msg.content)).toEqual(['From c2']);
+    expect(chat.sockets[0].readyState).toBe(3);
+  });
+
+  it('tracks streaming and resends a failed message in place', async () => {
+    const chat = renderChat();
+    cleanup = chat.unmount;
+    const socket = await initialize(chat.sockets);
+
+    let sent!: Awaited<ReturnType<UseChatReturn['sendMessage']>>;
+    await act(async () => {
+      sent = await chat.result.current.sendMessage('Hello');
+    });
+    expect(chat.result.current.isStreaming).toBe(true);
+
+    act(() => {
+      socket.receive({ type: 'error', error: 'rejected', client_message_id: sent.clientMessageId });
+    });
+    expect(chat.result.current.error).toBeInstanceOf(Error);
+    expect(chat.result.current.messages).toMatchObject([{ content: 'Hello', status: 'failed' }]);
+
+    await act(async () => {
+      await chat.result.current.retry();
+    });
+    expect(chat.result.current.error).toBeNull();
+    expect(chat.result.current.messages).toMatchObject([{ content: 'Hello', status: 'pending' }]);
+    expect(socket.sentOf('user')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ConnectionState } from '../src/types';
+import { connectChat } from './fake-socket';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('automatic reconnection', () => {
+  it('reconnects after an unexpected close and resumes from the latest message', async () => {
+    vi.useFakeTimers();
+    const { chat, sockets } = await connectChat({ retry: { initialDelay: 100 } });
+    const states: ConnectionState[] = [];
+    chat.onConnectionStateChange((state) => states.push(state));
+
+    sockets[0].receive({ type: 'system', subtype: 'init', session_id: 's1', uuid: 'u1', created_at: 1700000000 });
+    sockets[0].close();
+    expect(states).toEqual(['reconnecting']);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sockets).toHaveLength(2);
+    sockets[1].initialize();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sockets[1].sentOf('init_session')[0]).toMatchObject({
+      conversation_id: 'c1',
+      app_id: 'a1',
+      last_message_created_at: 1700000000,
+    });
+    expect(states).toEqual(['reconnecting', 'open']);
+    expect(chat.isConnected()).toBe(true);
+  });
+
+  it('gives up after the configured number of attempts', async () => {
+    vi.useFakeTimers();
+    const { chat, sockets } = await connectChat({
+      timeout: 1000,
+      retry: { initialDelay: 100, backoffMultiplier: 1, maxReconnectAttempts: 2 },
+    });
+
+    sockets[0].close();
+    await vi.advanceTimersByTimeAsync(2 * (100 + 1000));
+
+    expect(sockets).toHaveLength(3);
+    expect(chat.getConnectionState()).toBe('closed');
+  });
+
+  it('stays closed after disconnect()', async () => {
+    vi.useFakeTimers();
+    const { chat, sockets } = await connectChat({ retry: { initialDelay: 100 } });
+
+    chat.disconnect();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sockets).toHaveLength(1);
+    expect(chat.getConnectionState()).toBe('closed');
+  });
+
+  it('does not reconnect when autoReconnect is off', async () => {
+    vi.useFakeTimers();
+    const { chat, sockets } = await connectChat({ autoReconnect: false, retry: { initialDelay: 100 } });
+
+    sockets[0].close();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(sockets).toHaveLength(1);
+    expect(chat.getConnectionState()).toBe('closed');
+  });
+});
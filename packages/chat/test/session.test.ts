@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { connectChat } from './fake-socket';
+
+const system = (subtype: 'init' | 'update', fields: Record<string, unknown>) => ({
+  type: 'system',
+  subtype,
+  session_id: 's1',
+  uuid: 'u1',
+  ...fields,
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('session API', () => {
+  it('resolves updateSession with the merged system information', async () => {
+    const { chat, socket } = await connectChat();
+    socket.receive(system('init', { model: 'sonnet', tools: ['Read'] }));
+
+    const updated = chat.updateSession({ model: 'opus' });
+    expect(socket.sentOf('update_session')).toEqual([
+      { type: 'update_session', conversation_id: 'c1', config: { model: 'opus' } },
+    ]);
+
+    socket.receive(system('update', { model: 'opus' }));
+    await expect(updated).resolves.toMatchObject({ model: 'opus', tools: ['Read'] });
+    expect(chat.getSystemInfo()).toMatchObject({ sessionId: 's1', model: 'opus', tools: ['Read'] });
+  });
+
+  it('rejects updateSession when the server does not confirm in time', async () => {
+    vi.useFakeTimers();
+    const { chat } = await connectChat({ timeout: 1000 });
+
+    const updated = chat.updateSession({ model: 'opus' });
+    const assertion = expect(updated).rejects.toMatchObject({ code: 'SESSION_UPDATE_TIMEOUT' });
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+  });
+
+  it('returns null system information before the first system message', async () => {
+    const { chat } = await connectChat();
+
+    expect(chat.getSystemInfo()).toBeNull();
+  });
+
+  it('sends slash commands as user messages', async () => {
+    const { chat, socket } = await connectChat();
+    socket.receive(system('init', { slash_commands: ['compact', '/clear'] }));
+
+    await chat.runCommand('/compact', 'keep code').userMessage;
+    await chat.runCommand('clear').userMessage;
+
+    expect(socket.sentOf('user').map((frame) => (frame.message as { content: string }).content)).toEqual([
+      '/compact keep code',
+      '/clear',
+    ]);
+  });
+
+  it('rejects the turn of an unknown command without sending it', async () => {
+    const { chat, socket } = await connectChat();
+    socket.receive(system('init', { slash_commands: ['compact'] }));
+
+    const turn = chat.runCommand('/deploy');
+
+    await expect(turn.finalMessage()).rejects.toMatchObject({ code: 'UNKNOWN_COMMAND' });
+    await expect(turn[Symbol.asyncIterator]().next()).rejects.toMatchObject({ code: 'UNKNOWN_COMMAND' });
+    expect(socket.sentOf('user')).toHaveLength(0);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { createChat, createChatStore } from '../src/index';
+import type { ChatStoreOptions, Message } from '../src/types';
+import { FakeSocket } from './fake-socket';
+
+/**
+ * Store on a chat client with a fake socket (not connected yet)
+ */
+function setup(options: ChatStoreOptions = {}) {
+  const sockets: FakeSocket[] = [];
+  const client = createChat({
+    apiURL: 'https://api.example.test',
+    conversationId: 'c1',
+    appId: 'a1',
+    token: 'token',
+    heartbeat: { interval: 60_000 },
+    webSocketFactory: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+  });
+  const store = createChatStore(client, options);
+
+  async function connect() {
+    const connected = store.connect();
+    sockets[sockets.length - 1].initialize();
+    await connected;
+    return sockets[sockets.length - 1];
+  }
+
+  return { store, connect };
+}
+
+/** History that resolves when the test says so */
+function deferredHistory() {
+  let resolve!: (messages: Message[]) => void;
+  const promise = new Promise<Message[]>((r) => (resolve = r));
+  return { loadHistory: () => promise, resolve };
+}
+
+const assistant = (id: string, content: string): Message => ({
+  id,
+  conversationId: 'c1',
+  role: 'assistant',
+  content,
+  createdAt: 0,
+});
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('createChatStore', () => {
+  it('merges history with messages received while it loads', async () => {
+    const history = deferredHistory();
+    const { store, connect } = setup({ loadHistory: history.loadHistory });
+    const socket = await connect();
+    expect(store.getSnapshot().isLoadingHistory).toBe(true);
+
+    socket.receive({ type: 'assistant', content: [{ type: 'text', text: 'Live' }] });
+    const live = store.getSnapshot().messages[0];
+    history.resolve([assistant('old', 'Earlier'), { ...live }]);
+    await flush();
+
+    const state = store.getSnapshot();
+    expect(state.isLoadingHistory).toBe(false);
+    expect(state.messages.map((msg) => msg.content)).toEqual(['Earlier', 'Live']);
+  });
+
+  it('drops history loaded for a connection that was closed', async () => {
+    const history = deferredHistory();
+    const { store, connect } = setup({ loadHistory: history.loadHistory });
+    await connect();
+
+    await store.disconnect();
+    history.resolve([assistant('old', 'Earlier')]);
+    await flush();
+
+    const state = store.getSnapshot();
+    expect(state.messages).toEqual([]);
+    expect(state.isLoadingHistory).toBe(false);
+    expect(state.connectionState).toBe('closed');
+  });
+
+  it('retries a failed message in place', async () => {
+    const { store, connect } = setup();
+    const socket = await connect();
+
+    const first = await store.sendMessage('Hello');
+    socket.receive({ type: 'error', error: 'rejected', client_message_id: first.clientMessageId });
+    expect(store.getSnapshot().messages).toMatchObject([{ content: 'Hello', status: 'failed' }]);
+
+    const retried = await store.retry();
+    expect(retried?.clientMessageId).not.toBe(first.clientMessageId);
+    expect(store.getSnapshot().messages).toMatchObject([
+      { content: 'Hello', status: 'pending', clientMessageId: retried?.clientMessageId },
+    ]);
+    expect(socket.sentOf('user')).toHaveLength(2);
+  });
+
+  it('returns null when there is nothing to retry', async () => {
+    const { store, connect } = setup();
+    await connect();
+
+    await expect(store.retry()).resolves.toBeNull();
+  });
+
+  it('clears the streaming draft on disconnect', async () => {
+    const { store, connect } = setup();
+    const socket = await connect();
+
+    socket.receive({
+      type: 'stream_event',
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hal' } },
+    });
+    expect(store.getSnapshot()).toMatchObject({ isStreaming: true, streamingContent: 'Hal' });
+
+    await store.disconnect();
+    expect(store.getSnapshot()).toMatchObject({ isStreaming: false, streamingContent: '' });
+  });
+});
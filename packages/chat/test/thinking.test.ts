@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+import { connectChat } from './fake-socket';
+
+const delta = (index: number, delta: Record<string, unknown>) => ({
+  type: 'stream_event',
+  event: { type: 'content_block_delta', index, delta },
+});
+
+describe('thinking stream', () => {
+  it('streams thinking separately from the answer text', async () => {
+    const { chat, socket } = await connectChat();
+    const onChunk = vi.fn();
+    const onThinkingChunk = vi.fn();
+    chat.onMessage(() => {}, { onChunk, onThinkingChunk });
+
+    socket.receive(delta(0, { type: 'thinking_delta', thinking: 'Let me ' }));
+    socket.receive(delta(0, { type: 'thinking_delta', thinking: 'check.' }));
+    socket.receive(delta(1, { type: 'text_delta', text: 'Done.' }));
+
+    expect(onThinkingChunk.mock.calls.map(([chunk]) => chunk)).toEqual(['Let me ', 'check.']);
+    expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual(['Done.']);
+  });
+
+  it('keeps thinking blocks out of the content of complete messages', async () => {
+    const { chat, socket } = await connectChat();
+    const onMessage = vi.fn();
+    chat.onMessage(onMessage);
+
+    socket.receive({
+      type: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'The user wants a greeting.' },
+        { type: 'text', text: 'Hello!' },
+      ],
+    });
+
+    expect(onMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ role: 'assistant', content: 'Hello!', thinking: 'The user wants a greeting.' })
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketTransport } from '../src/internal/transport';
+import { FakeSocket } from './fake-socket';
+
+function createTransport(options: ConstructorParameters<typeof WebSocketTransport>[1] = {}) {
+  const sockets: FakeSocket[] = [];
+  const transport = new WebSocketTransport('wss://example.test', {
+    timeout: 1000,
+    retry: { maxRetries: 2, initialDelay: 100 },
+    ...options,
+    webSocketFactory: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+  });
+  return { transport, sockets };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('WebSocketTransport', () => {
+  it('resolves a new connect() right away after a fast disconnect/connect', async () => {
+    vi.useFakeTimers();
+    const { transport, sockets } = createTransport();
+
+    const first = transport.connect('c1', 'a1');
+    first.catch(() => {});
+    transport.disconnect();
+
+    const second = transport.connect('c1', 'a1');
+    sockets[sockets.length - 1].initialize();
+
+    await expect(second).resolves.toMatchObject({ conversationId: 'c1' });
+    await expect(first).rejects.toThrow();
+
+    // The superseded retry loop does not open more sockets
+    const count = sockets.length;
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(sockets.length).toBe(count);
+    expect(transport.getState()).toBe('open');
+  });
+
+  it('ignores frames from a replaced socket', async () => {
+    const { transport, sockets } = createTransport();
+    const connecting = transport.connect('c1', 'a1');
+    sockets[0].initialize();
+    await connecting;
+
+    const chunks: string[] = [];
+    transport.onMessage(() => {}, { onChunk: (chunk) => chunks.push(chunk) });
+
+    transport.disconnect();
+    sockets[0].receive({
+      type: 'stream_event',
+      event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'late' } },
+    });
+    expect(chunks).toEqual([]);
+  });
+
+  it('detects a half-open connection when the server never answers heartbeats', async () => {
+    vi.useFakeTimers();
+    const { transport, sockets } = createTransport({ heartbeat: { interval: 1000, timeout: 500 } });
+
+    const connected = transport.connect('c1', 'a1');
+    sockets[0].initialize();
+    await connected;
+
+    // Any frame within the timeout keeps the connection
+    await vi.advanceTimersByTimeAsync(1000);
+    sockets[0].receive({ type: 'assistant', message: { content: [] } });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(sockets[0].readyState).toBe(1);
+
+    // Nothing at all after the next heartbeat: stale, reconnect
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sockets[0].readyState).toBe(3);
+    expect(transport.getState()).toBe('reconnecting');
+    transport.disconnect();
+  });
+
+  it('keeps a connection whose server answers heartbeats', async () => {
+    vi.useFakeTimers();
+    const { transport, sockets } = createTransport({ heartbeat: { interval: 1000, timeout: 500 } });
+
+    const connected = transport.connect('c1', 'a1');
+    sockets[0].initialize();
+    await connected;
+
+    for (let i = 0; i < 3; i++) {
+      await vi.advanceTimersByTimeAsync(1000);
+      sockets[0].receive({ type: 'pong' });
+    }
+    await vi.advanceTimersByTimeAsync(400);
+
+    expect(sockets).toHaveLength(1);
+    expect(transport.getState()).toBe('open');
+    transport.disconnect();
+  });
+});
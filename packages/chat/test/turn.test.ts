@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { connectChat } from './fake-socket';
+
+const chunk = (text: string) => ({
+  type: 'stream_event',
+  event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+});
+const result = { type: 'result', subtype: 'success', result: '', session_id: 's', uuid: 'u' };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('ChatTurn.abort', () => {
+  it('interrupts the running turn', async () => {
+    const { chat, socket } = await connectChat();
+
+    const turn = chat.send('a');
+    await turn.userMessage;
+    turn.abort();
+
+    expect(socket.sentOf('interrupt')).toHaveLength(1);
+    await expect(turn.finalMessage()).rejects.toThrow('Turn aborted');
+  });
+
+  it('interrupts a queued turn only once it starts', async () => {
+    const { chat, socket } = await connectChat();
+
+    const first = chat.send('a');
+    const second = chat.send('b');
+    await Promise.all([first.userMessage, second.userMessage]);
+
+    second.abort();
+    expect(socket.sentOf('interrupt')).toHaveLength(0);
+
+    // The running turn is not affected
+    socket.receive(chunk('hello'));
+    socket.receive(result);
+    await expect(first.finalMessage()).resolves.toMatchObject({ role: 'assistant' });
+
+    // The aborted turn starts now and is interrupted right away
+    expect(socket.sentOf('interrupt')).toHaveLength(1);
+  });
+
+  it('drops a message whose attachments are still uploading', async () => {
+    let finishUpload!: () => void;
+    const upload = vi.fn(() => new Promise<{ fileId: string }>((resolve) => {
+      finishUpload = () => resolve({ fileId: 'f1' });
+    }));
+    const { chat, socket } = await connectChat({ attachments: { upload } });
+
+    const turn = chat.send('look', { attachments: [{ data: new Uint8Array([1]), filename: 'a.txt' }] });
+    await vi.waitFor(() => expect(upload).toHaveBeenCalled());
+    turn.abort();
+    finishUpload();
+
+    await expect(turn.userMessage).rejects.toThrow('Turn aborted');
+    expect(socket.sentOf('user')).toHaveLength(0);
+    expect(socket.sentOf('interrupt')).toHaveLength(0);
+  });
+
+  it('drops a message queued while offline', async () => {
+    const { chat, socket } = await connectChat({ queueOfflineMessages: true, autoReconnect: false });
+    const statuses: string[] = [];
+    chat.onMessageStatusChange((message) => statuses.push(`${message.content}:${message.status}`));
+
+    const running = chat.send('a');
+    await running.userMessage;
+    socket.close();
+
+    const queued = chat.send('b');
+    await queued.userMessage;
+    queued.abort();
+
+    expect(statuses).toEqual(['b:failed']);
+    expect(socket.sentOf('interrupt')).toHaveLength(0);
+  });
+});
+
+describe('session requests during a turn', () => {
+  it('keeps streaming the turn when a session update is refused', async () => {
+    const { chat, socket } = await connectChat();
+
+    const turn = chat.send('a');
+    await turn.userMessage;
+    socket.receive(chunk('one'));
+
+    const update = chat.updateSession({ model: 'unknown' });
+    socket.receive({ type: 'error', error: 'Invalid model', code: 'INVALID_CONFIG' });
+    await expect(update).rejects.toThrow('Invalid model');
+
+    socket.receive(chunk('two'));
+    socket.receive(result);
+
+    const deltas: string[] = [];
+    for await (const event of turn) {
+      if (event.type === 'text_delta') deltas.push(event.text);
+    }
+    expect(deltas).toEqual(['one', 'two']);
+  });
+});
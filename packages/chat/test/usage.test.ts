@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { connectChat } from './fake-socket';
+
+const result = (overrides: Record<string, unknown> = {}) => ({
+  type: 'result',
+  subtype: 'success',
+  result: 'Done.',
+  session_id: 's1',
+  uuid: 'r1',
+  duration_ms: 1200,
+  duration_api_ms: 800,
+  num_turns: 2,
+  usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 50 },
+  ...overrides,
+});
+
+describe('usage and cost', () => {
+  it('maps result usage, cost, timing and denials to typed fields', async () => {
+    const { chat, socket } = await connectChat();
+    const onResult = vi.fn();
+    chat.onMessage(() => {}, { onResult });
+
+    socket.receive(
+      result({
+        total_cost_usd: 0.012,
+        modelUsage: {
+          'model-a': { inputTokens: 100, outputTokens: 20, cacheReadInputTokens: 50, costUSD: 0.012 },
+        },
+        permission_denials: [{ tool_name: 'Bash', tool_use_id: 't1', tool_input: { command: 'rm' } }],
+      })
+    );
+
+    expect(onResult).toHaveBeenCalledWith({
+      id: 'r1',
+      conversationId: 'c1',
+      sessionId: 's1',
+      isError: false,
+      result: 'Done.',
+      usage: { input_tokens: 100, output_tokens: 20, cache_read_input_tokens: 50 },
+      cost: {
+        totalUsd: 0.012,
+        byModel: {
+          'model-a': { inputTokens: 100, outputTokens: 20, cacheReadInputTokens: 50, costUsd: 0.012 },
+        },
+      },
+      timing: { durationMs: 1200, durationApiMs: 800, numTurns: 2 },
+      permissionDenials: [{ toolName: 'Bash', toolUseId: 't1', toolInput: { command: 'rm' } }],
+    });
+  });
+
+  it('sums the per-model cost when the total is missing', async () => {
+    const { chat, socket } = await connectChat();
+    const onResult = vi.fn();
+    chat.onMessage(() => {}, { onResult });
+
+    socket.receive(
+      result({
+        modelUsage: {
+          'model-a': { inputTokens: 10, outputTokens: 1, costUSD: 0.25 },
+          'model-b': { inputTokens: 5, outputTokens: 1, costUSD: 0.5 },
+        },
+      })
+    );
+
+    expect(onResult.mock.calls[0][0].cost.totalUsd).toBe(0.75);
+  });
+
+  it('accumulates session usage over every result, errors included', async () => {
+    const { chat, socket } = await connectChat();
+    chat.onMessage(() => {}, { onError: () => {} });
+
+    socket.receive(result({ total_cost_usd: 0.01 }));
+    socket.receive(
+      result({
+        subtype: 'error',
+        is_error: true,
+        result: 'failed',
+        uuid: 'r2',
+        total_cost_usd: 0.02,
+        usage: { input_tokens: 30, output_tokens: 0 },
+        num_turns: 1,
+      })
+    );
+
+    const usage = chat.getUsage();
+    expect(usage).toEqual({
+      usage: {
+        input_tokens: 130,
+        output_tokens: 20,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 50,
+      },
+      totalCostUsd: 0.03,
+      durationMs: 2400,
+      durationApiMs: 1600,
+      numTurns: 3,
+      results: 2,
+    });
+
+    // A snapshot, not the live totals
+    usage.usage.input_tokens = 0;
+    expect(chat.getUsage().usage.input_tokens).toBe(130);
+  });
+});
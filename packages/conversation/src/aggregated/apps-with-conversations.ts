@@ -4,11 +4,11 @@ import type {
   Conversation,
   ListAppsWithConversationsResult,
 } from '../types/index.js';
-import type { DbSchema } from '../types/models.types.js';
 import { transformConversation } from '../transforms/conversation.transform.js';
 import { transformApp } from '../transforms/app.transform.js';
 import { pageToOffset } from '../types/pagination.types.js';
 import { getUrlSessionToken } from '../session/session-token.js';
+import type { Logger } from '../types/logger.types.js';
 
 /**
  * Configuration for aggregated query
@@ -46,6 +46,11 @@ export interface ListAppsWithConversationsConfig {
    * @default "https://auth.seaverse.ai"
    */
   authBaseUrl?: string;
+
+  /**
+   * Logger for URL session token generation
+   */
+  logger?: Logger;
 }
 
 /**
@@ -65,35 +70,44 @@ export interface ListAppsWithConversationsConfig {
 export async function listAppsWithConversations(
   config: ListAppsWithConversationsConfig
 ): Promise<ListAppsWithConversationsResult> {
-  const {
-    appId,
-    page = 1,
-    pageSize = 20,
-    db,
-    accessToken,
-    authBaseUrl,
-  } = config;
-
-  // Calculate pagination params
-  const { limit, offset } = pageToOffset(page, pageSize);
+  const { db, accessToken, authBaseUrl, logger, ...options } = config;
 
-  // Step 1: 并行获取 apps 列表和 url_session_token
-  const [dbApps, urlSessionToken] = await Promise.all([
-    // Get apps with pagination, sorted by created_at descending
-    db.get<DbSchema.App>(
-      'apps',
-      appId
-        ? { filter: { app_id: `eq.${appId}` }, order: 'created_at.desc', limit, offset, count: 'exact' }
-        : { order: 'created_at.desc', limit, offset, count: 'exact' }
-    ),
-
-    // Get URL session token from auth service
+  // 并行获取聚合数据和 url_session_token
+  const [result, urlSessionToken] = await Promise.all([
+    queryAppsWithConversations(db, options),
     getUrlSessionToken({
       accessToken,
       authBaseUrl,
+      logger,
     }),
   ]);
 
+  return {
+    ...result,
+    url_session_token: urlSessionToken,
+  };
+}
+
+/**
+ * Query one page of apps with their conversations (database only, no url_session_token)
+ */
+export async function queryAppsWithConversations(
+  db: DbClient,
+  options: Pick<ListAppsWithConversationsConfig, 'appId' | 'page' | 'pageSize'> = {}
+): Promise<Omit<ListAppsWithConversationsResult, 'url_session_token'>> {
+  const { appId, page = 1, pageSize = 20 } = options;
+
+  // Calculate pagination params
+  const { limit, offset } = pageToOffset(page, pageSize);
+
+  // Step 1: Get apps with pagination, sorted by created_at descending
+  const dbApps = await (appId ? db.from('apps').eq('app_id', appId) : db.from('apps'))
+    .order('created_at', 'desc')
+    .limit(limit)
+    .offset(offset)
+    .count('exact')
+    .get();
+
   // Step 2: 根据分页后的 app IDs 查询对应的 conversations（避免全量拉取）
   const appIds = dbApps.data.map((app) => (app.app_id || app.id) as string);
 
@@ -104,14 +118,11 @@ export async function listAppsWithConversations(
     // 避免 PostgREST 默认 max-rows (500) 导致全量返回
     const conversationsLimit = Math.max(appIds.length * 50, 100);
 
-    const dbConversations = await db.get<DbSchema.Conversation>(
-      'conversations',
-      {
-        filter: { app_id: `in.(${appIds.join(',')})` },
-        order: 'updated_at.desc',
-        limit: conversationsLimit,
-      }
-    );
+    const dbConversations = await db
+      .from('conversations')
+      .in('app_id', appIds)
+      .order('updated_at', 'desc')
+      .limit(conversationsLimit);
 
     // Group conversations by appId
     // Conversations are already sorted by updated_at.desc from database query
@@ -144,6 +155,5 @@ export async function listAppsWithConversations(
   return {
     apps: appsWithConversations,
     hasMore,
-    url_session_token: urlSessionToken,
   };
 }
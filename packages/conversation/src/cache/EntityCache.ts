@@ -0,0 +1,235 @@
+/**
+ * 实体缓存 - 按 id 归一化存储会话、消息和应用，列表查询只保存 id
+ */
+
+import type { CacheConfig, CachedEntities, EntityType } from '../types/cache.types.js';
+import type { Logger } from '../types/logger.types.js';
+import { silentLogger } from '../logging/logger.js';
+
+/**
+ * 列表结果（data 中的实体会被归一化，其余字段原样保存）
+ */
+type ListResult<T extends EntityType> = { data: Array<CachedEntities[T]> };
+
+interface QueryEntry {
+  type: EntityType;
+  ids: string[];
+  rest: object;
+  tags: string[];
+  updatedAt: number;
+}
+
+interface InflightEntry {
+  promise: Promise<unknown>;
+  tags: string[];
+}
+
+/**
+ * 归一化实体缓存
+ *
+ * - 新鲜期内直接返回缓存；过期后在 staleWhileRevalidate 窗口内返回旧数据并后台刷新
+ * - 相同 key 的并发查询只请求一次
+ * - 实体按 id 共享：更新单个实体后，所有包含它的列表读到的都是新值
+ * - 写入和读出的都是副本，调用方修改返回值不会影响缓存
+ * - 失效后的查询视为未命中，下次读取会等待新数据；失效前发出、带相同标签的请求结果不再写入
+ */
+export class EntityCache {
+  private readonly enabled: boolean;
+  private readonly ttl: number;
+  private readonly staleWhileRevalidate: number;
+  private readonly maxQueries: number;
+
+  private readonly entities: { [T in EntityType]: Map<string, CachedEntities[T]> } = {
+    conversations: new Map(),
+    messages: new Map(),
+    apps: new Map(),
+  };
+  private readonly queries = new Map<string, QueryEntry>();
+  private readonly inflight = new Map<string, InflightEntry>();
+
+  // 失效计数：每次失效递增，并记录到被失效的标签（全部失效时记录到 epoch）
+  private invalidations = 0;
+  private epoch = 0;
+  private readonly tagVersions = new Map<string, number>();
+
+  /**
+   * @param config - 缓存配置（`undefined` 时只做请求去重，不缓存结果）
+   */
+  constructor(
+    config: CacheConfig | undefined,
+    private readonly logger: Logger = silentLogger
+  ) {
+    this.enabled = config !== undefined;
+    this.ttl = config ? config.ttl ?? 30_000 : 0;
+    this.staleWhileRevalidate = config ? config.staleWhileRevalidate ?? 300_000 : 0;
+    this.maxQueries = config?.maxQueries ?? 100;
+  }
+
+  /**
+   * 读取列表查询（命中缓存时不发请求）
+   *
+   * @param key - 查询 key（相同参数应生成相同 key）
+   * @param tags - 失效标签（`invalidate(tag)` 会清除带该标签的查询）
+   */
+  async query<T extends EntityType, R extends ListResult<T>>(
+    type: T,
+    key: string,
+    tags: string[],
+    fetcher: () => Promise<R>
+  ): Promise<R> {
+    const entry = this.queries.get(key);
+    const age = entry ? Date.now() - entry.updatedAt : Infinity;
+
+    if (entry && age < this.ttl) {
+      this.logger.debug('Cache hit', { key });
+      return this.materialize<R>(entry);
+    }
+
+    if (entry && age < this.ttl + this.staleWhileRevalidate) {
+      this.logger.debug('Cache stale, revalidating', { key });
+      this.revalidate(type, key, tags, fetcher).catch((error) => {
+        // 后台刷新失败时保留旧数据
+        this.logger.warn('Revalidate failed', { key, error });
+      });
+      return this.materialize<R>(entry);
+    }
+
+    return this.revalidate(type, key, tags, fetcher);
+  }
+
+  /**
+   * 获取单个实体
+   */
+  get<T extends EntityType>(type: T, id: string): CachedEntities[T] | undefined {
+    const entity = this.entities[type].get(id);
+    return entity && clone(entity);
+  }
+
+  /**
+   * 写入单个实体（所有包含它的列表都会读到新值）
+   */
+  set<T extends EntityType>(type: T, entity: CachedEntities[T]): void {
+    if (!this.enabled) return;
+    this.entities[type].set(entity.id, clone(entity));
+  }
+
+  /**
+   * 移除单个实体（列表读取时会跳过已移除的 id）
+   */
+  remove(type: EntityType, id: string): void {
+    this.entities[type].delete(id);
+  }
+
+  /**
+   * 使带指定标签的查询失效（不传则全部失效）
+   *
+   * 标签：`conversations`、`messages`、`apps`、`messages:<conversationId>`
+   */
+  invalidate(...tags: string[]): void {
+    const version = ++this.invalidations;
+    if (tags.length === 0) {
+      this.epoch = version;
+    } else {
+      tags.forEach((tag) => this.tagVersions.set(tag, version));
+    }
+
+    const matches = (entryTags: string[]) =>
+      tags.length === 0 || entryTags.some((tag) => tags.includes(tag));
+
+    for (const [key, entry] of this.queries) {
+      if (matches(entry.tags)) this.queries.delete(key);
+    }
+    for (const [key, entry] of this.inflight) {
+      if (matches(entry.tags)) this.inflight.delete(key);
+    }
+
+    this.logger.debug('Invalidate', { tags });
+  }
+
+  /**
+   * 清空缓存
+   */
+  clear(): void {
+    this.epoch = ++this.invalidations;
+    this.queries.clear();
+    this.inflight.clear();
+    Object.values(this.entities).forEach((map) => map.clear());
+  }
+
+  private revalidate<T extends EntityType, R extends ListResult<T>>(
+    type: T,
+    key: string,
+    tags: string[],
+    fetcher: () => Promise<R>
+  ): Promise<R> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return (pending.promise as Promise<R>).then(clone);
+    }
+
+    const version = this.versionOf(tags);
+    const promise = fetcher()
+      .then((result) => {
+        if (version === this.versionOf(tags) && this.enabled) {
+          this.store(type, key, tags, result);
+        }
+        return result;
+      })
+      .finally(() => {
+        if (this.inflight.get(key)?.promise === promise) {
+          this.inflight.delete(key);
+        }
+      });
+
+    this.inflight.set(key, { promise, tags });
+    return promise;
+  }
+
+  private store<T extends EntityType>(type: T, key: string, tags: string[], result: ListResult<T>): void {
+    const { data, ...rest } = result;
+    data.forEach((entity) => this.set(type, entity));
+
+    // 重新插入以保持 Map 顺序为最近写入
+    this.queries.delete(key);
+    this.queries.set(key, { type, ids: data.map((entity) => entity.id), rest: clone(rest), tags, updatedAt: Date.now() });
+
+    if (this.queries.size > this.maxQueries) {
+      const oldest = this.queries.keys().next().value;
+      if (oldest !== undefined) this.queries.delete(oldest);
+      this.prune();
+    }
+  }
+
+  private materialize<R>(entry: QueryEntry): R {
+    const map = this.entities[entry.type] as Map<string, unknown>;
+    const data = entry.ids.filter((id) => map.has(id)).map((id) => clone(map.get(id)));
+    return { ...clone(entry.rest), data } as R;
+  }
+
+  /**
+   * 最近一次影响这些标签的失效
+   */
+  private versionOf(tags: string[]): number {
+    return Math.max(this.epoch, ...tags.map((tag) => this.tagVersions.get(tag) ?? 0));
+  }
+
+  /**
+   * 移除不再被任何查询引用的实体
+   */
+  private prune(): void {
+    const referenced = new Set<string>();
+    for (const entry of this.queries.values()) {
+      entry.ids.forEach((id) => referenced.add(`${entry.type}:${id}`));
+    }
+
+    (Object.keys(this.entities) as EntityType[]).forEach((type) => {
+      for (const id of this.entities[type].keys()) {
+        if (!referenced.has(`${type}:${id}`)) this.entities[type].delete(id);
+      }
+    });
+  }
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -2,7 +2,12 @@ import { createHttpClient } from '../transport/index.js';
 import { DbClient } from '../data/DbClient.js';
 import { getUrlSessionToken as getToken } from '../session/session-token.js';
 import type { ConversationClientConfig } from '../types/config.types.js';
+import type { Logger } from '../types/logger.types.js';
+import type { ChangeHandler, RealtimeSource, RealtimeTable, SubscribeFilters } from '../types/realtime.types.js';
+import { createLogger } from '../logging/logger.js';
 import { getEnvironmentConfig } from './EnvironmentConfig.js';
+import { createPollingSource } from '../realtime/polling-source.js';
+import { subscribeChanges } from '../realtime/subscribe.js';
 import { ConversationsResource } from '../resources/ConversationsResource.js';
 import { MessagesResource } from '../resources/MessagesResource.js';
 import { AppsResource } from '../resources/AppsResource.js';
@@ -11,10 +16,12 @@ import { AppsResource } from '../resources/AppsResource.js';
  * Conversation SDK 客户端
  */
 export class ConversationClient {
-  private readonly config: Required<ConversationClientConfig> & {
+  private readonly config: Required<Omit<ConversationClientConfig, 'logger' | 'realtime' | 'cache'>> & {
     urls: ReturnType<typeof getEnvironmentConfig>;
   };
   private readonly db: DbClient;
+  private readonly sessionTokenLogger: Logger;
+  private readonly realtime: RealtimeSource;
 
   // 资源访问器
   public readonly conversations: ConversationsResource;
@@ -34,19 +41,35 @@ export class ConversationClient {
       urls: envConfig,
     };
 
+    this.sessionTokenLogger = createLogger(config.logger, 'conversation:session-token');
+
     // 创建底层客户端
     const http = createHttpClient({
       baseUrl: this.config.urls.postgrest,
       fetch: this.config.fetch,
       getAuthToken: this.config.getToken,
       timeoutMs: this.config.timeout,
+      logger: createLogger(config.logger, 'conversation:http'),
     });
 
     this.db = new DbClient(http);
 
+    this.realtime =
+      config.realtime?.source ??
+      createPollingSource(this.db, {
+        interval: config.realtime?.pollInterval,
+        logger: createLogger(config.logger, 'conversation:realtime'),
+      });
+
     // 初始化资源
-    this.conversations = new ConversationsResource(this.db, this.config.getToken, this.config.urls.auth);
-    this.messages = new MessagesResource(this.db);
+    this.conversations = new ConversationsResource(
+      this.db,
+      this.config.getToken,
+      this.config.urls.auth,
+      this.sessionTokenLogger,
+      this.realtime
+    );
+    this.messages = new MessagesResource(this.db, this.realtime);
     this.apps = new AppsResource(this.db);
   }
 
@@ -61,8 +84,29 @@ export class ConversationClient {
       authBaseUrl: this.config.urls.auth,
       accessToken: token,
       fetch: this.config.fetch,
+      logger: this.sessionTokenLogger,
     });
   }
+
+  /**
+   * 订阅会话或消息的变更（insert / update / delete）
+   *
+   * @returns 取消订阅函数
+   *
+   * @example
+   * const unsubscribe = client.subscribe('messages', { conversationId }, (event) => {
+   *   if (event.type === 'delete') remove(event.id);
+   *   else upsert(event.record);
+   * });
+   */
+  subscribe<T extends RealtimeTable>(
+    table: T,
+    filter: SubscribeFilters[T],
+    handler: ChangeHandler<T>,
+    onError?: (error: Error) => void
+  ): () => void {
+    return subscribeChanges(this.realtime, table, filter, handler, onError);
+  }
 }
 
 /**
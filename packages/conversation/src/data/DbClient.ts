@@ -1,6 +1,8 @@
 import type { HttpClient } from '../transport/HttpClient.js';
 import type { QueryOptions, MutationOptions } from './query.types.js';
+import type { DbSchema } from '../types/models.types.js';
 import { buildPostgrestHeaders, buildQueryString } from './postgrest-headers.js';
+import { QueryBuilder } from './QueryBuilder.js';
 
 /**
  * 带总数的查询结果
@@ -16,6 +18,26 @@ export interface QueryResultWithCount<T> {
 export class DbClient {
   constructor(private readonly http: HttpClient) {}
 
+  /**
+   * Start a typed query on a table
+   *
+   * Columns and filter values are checked against `DbSchema.Tables`;
+   * values are quoted as needed.
+   *
+   * @example
+   * const { data } = await db
+   *   .from('conversations')
+   *   .eq('app_id', appId)
+   *   .in('user_id', userIds)
+   *   .order('updated_at', 'desc')
+   *   .range(0, 19);
+   */
+  from<T extends keyof DbSchema.Tables>(table: T): QueryBuilder<DbSchema.Tables[T]>;
+  from<Row = Record<string, unknown>>(table: string): QueryBuilder<Row>;
+  from(table: string): QueryBuilder<unknown> {
+    return new QueryBuilder(this, table);
+  }
+
   /**
    * Get multiple rows from a table
    *
@@ -118,7 +140,7 @@ export class DbClient {
    */
   async patch<T = unknown>(
     table: string,
-    filter: Record<string, string>,
+    filter: NonNullable<QueryOptions['filter']>,
     data: unknown,
     options: MutationOptions = {}
   ): Promise<T[]> {
@@ -138,7 +160,7 @@ export class DbClient {
    */
   async delete(
     table: string,
-    filter: Record<string, string>
+    filter: NonNullable<QueryOptions['filter']>
   ): Promise<void> {
     const query = buildQueryString({ filter });
 
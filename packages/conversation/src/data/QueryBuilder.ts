@@ -0,0 +1,409 @@
+import type { DbClient, QueryResultWithCount } from './DbClient.js';
+import type { FilterEntries, MutationOptions, QueryOptions } from './query.types.js';
+import { ProtocolError } from '../errors/index.js';
+
+/**
+ * 过滤值
+ */
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * 比较运算符
+ */
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'like' | 'ilike';
+
+/**
+ * 表的列名
+ */
+export type ColumnName<Row> = Extract<keyof Row, string>;
+
+/**
+ * JSON 路径列（`metadata->key`、`metadata->>key`、`metadata->a->>b`）
+ */
+export type JsonPath<Row> = `${ColumnName<Row>}->${string}`;
+
+/**
+ * 可过滤/排序的列
+ */
+export type Column<Row> = ColumnName<Row> | JsonPath<Row>;
+
+/**
+ * 列对应的过滤值类型（JSON 路径和未声明类型的列接受任意标量）
+ */
+export type ColumnValue<Row, C> = C extends keyof Row
+  ? unknown extends Row[C]
+    ? FilterValue
+    : Extract<NonNullable<Row[C]>, FilterValue>
+  : FilterValue;
+
+/**
+ * 过滤条件树
+ */
+type FilterNode =
+  | {
+      kind: 'condition';
+      column: string;
+      operator: FilterOperator | 'in' | 'is';
+      value: FilterValue | FilterValue[];
+      negate: boolean;
+    }
+  | {
+      kind: 'group';
+      type: 'and' | 'or';
+      nodes: FilterNode[];
+      negate: boolean;
+    };
+
+/**
+ * PostgREST 保留字符（出现在列表或逻辑组中的值需要加引号）
+ */
+const RESERVED = /[,.:()"\\\s]/;
+
+/**
+ * 过滤条件构建器（也用于 or/and/not 的嵌套条件）
+ */
+export class FilterBuilder<Row> {
+  protected nodes: FilterNode[] = [];
+
+  /** 等于 */
+  eq<C extends Column<Row>>(column: C, value: ColumnValue<Row, C>): this {
+    return this.filter(column, 'eq', value);
+  }
+
+  /** 不等于 */
+  neq<C extends Column<Row>>(column: C, value: ColumnValue<Row, C>): this {
+    return this.filter(column, 'neq', value);
+  }
+
+  /** 大于 */
+  gt<C extends Column<Row>>(column: C, value: ColumnValue<Row, C>): this {
+    return this.filter(column, 'gt', value);
+  }
+
+  /** 大于等于 */
+  gte<C extends Column<Row>>(column: C, value: ColumnValue<Row, C>): this {
+    return this.filter(column, 'gte', value);
+  }
+
+  /** 小于 */
+  lt<C extends Column<Row>>(column: C, value: ColumnValue<Row, C>): this {
+    return this.filter(column, 'lt', value);
+  }
+
+  /** 小于等于 */
+  lte<C extends Column<Row>>(column: C, value: ColumnValue<Row, C>): this {
+    return this.filter(column, 'lte', value);
+  }
+
+  /** 模式匹配（`%` 或 `*` 通配） */
+  like(column: Column<Row>, pattern: string): this {
+    return this.filter(column, 'like', pattern);
+  }
+
+  /** 模式匹配（忽略大小写） */
+  ilike(column: Column<Row>, pattern: string): this {
+    return this.filter(column, 'ilike', pattern);
+  }
+
+  /** 属于列表（含逗号、括号等的值会自动加引号） */
+  in<C extends Column<Row>>(column: C, values: ReadonlyArray<ColumnValue<Row, C>>): this {
+    this.nodes.push({ kind: 'condition', column, operator: 'in', value: [...values], negate: false });
+    return this;
+  }
+
+  /** IS 判断（`null`、`true`、`false`） */
+  is(column: Column<Row>, value: null | boolean): this {
+    this.nodes.push({ kind: 'condition', column, operator: 'is', value, negate: false });
+    return this;
+  }
+
+  /**
+   * 取反
+   *
+   * - `not('status', 'eq', 'archived')`：单个条件取反
+   * - `not((f) => f.eq('a', 1).eq('b', 2))`：整组条件取反（NOT (a AND b)）
+   */
+  not<C extends Column<Row>>(column: C, operator: FilterOperator, value: ColumnValue<Row, C>): this;
+  not<C extends Column<Row>>(column: C, operator: 'in', value: ReadonlyArray<ColumnValue<Row, C>>): this;
+  not(column: Column<Row>, operator: 'is', value: null | boolean): this;
+  not(build: (filter: FilterBuilder<Row>) => FilterBuilder<Row>): this;
+  not(
+    columnOrBuild: string | ((filter: FilterBuilder<Row>) => FilterBuilder<Row>),
+    operator?: FilterOperator | 'in' | 'is',
+    value?: FilterValue | ReadonlyArray<FilterValue>
+  ): this {
+    if (typeof columnOrBuild === 'function') {
+      return this.group('and', columnOrBuild, true);
+    }
+
+    this.nodes.push({
+      kind: 'condition',
+      column: columnOrBuild,
+      operator: operator!,
+      value: Array.isArray(value) ? [...value] : (value as FilterValue),
+      negate: true,
+    });
+    return this;
+  }
+
+  /**
+   * 任一条件成立
+   *
+   * @example
+   * db.from('apps').or((f) => f.ilike('app_name', '%chat%').ilike('description', '%chat%'))
+   */
+  or(build: (filter: FilterBuilder<Row>) => FilterBuilder<Row>): this {
+    return this.group('or', build, false);
+  }
+
+  /**
+   * 全部条件成立（用于 or 内部嵌套）
+   */
+  and(build: (filter: FilterBuilder<Row>) => FilterBuilder<Row>): this {
+    return this.group('and', build, false);
+  }
+
+  /**
+   * 通用比较条件
+   */
+  filter(column: Column<Row>, operator: FilterOperator, value: FilterValue): this {
+    this.nodes.push({ kind: 'condition', column, operator, value, negate: false });
+    return this;
+  }
+
+  private group(
+    type: 'and' | 'or',
+    build: (filter: FilterBuilder<Row>) => FilterBuilder<Row>,
+    negate: boolean
+  ): this {
+    const builder = new FilterBuilder<Row>();
+    build(builder);
+    this.nodes.push({ kind: 'group', type, nodes: builder.nodes, negate });
+    return this;
+  }
+}
+
+/**
+ * 类型安全的 PostgREST 查询构建器
+ *
+ * 通过 `db.from(table)` 创建，可直接 await（等同于 `.get()`）。
+ *
+ * @example
+ * const { data, count } = await db
+ *   .from('conversations')
+ *   .select('conversation_id,title')
+ *   .eq('app_id', appId)
+ *   .order('updated_at', 'desc')
+ *   .range(0, 19)
+ *   .count('exact');
+ */
+export class QueryBuilder<Row, Result = Row>
+  extends FilterBuilder<Row>
+  implements PromiseLike<QueryResultWithCount<Result>>
+{
+  private columns?: string;
+  private orders: string[] = [];
+  private limitCount?: number;
+  private offsetCount?: number;
+  private countMode?: QueryOptions['count'];
+
+  constructor(
+    private readonly db: DbClient,
+    private readonly table: string
+  ) {
+    super();
+  }
+
+  /**
+   * 选择列（默认 `*`）
+   *
+   * @example "conversation_id,title"
+   * @example "*,conversations(*)"
+   */
+  select<R = Result>(columns: string): QueryBuilder<Row, R> {
+    const builder = new QueryBuilder<Row, R>(this.db, this.table);
+    builder.nodes = [...this.nodes];
+    builder.columns = columns;
+    builder.orders = [...this.orders];
+    builder.limitCount = this.limitCount;
+    builder.offsetCount = this.offsetCount;
+    builder.countMode = this.countMode;
+    return builder;
+  }
+
+  /**
+   * 排序（可多次调用，按调用顺序组合）
+   */
+  order(
+    column: Column<Row>,
+    direction: 'asc' | 'desc' = 'asc',
+    options: { nulls?: 'first' | 'last' } = {}
+  ): this {
+    this.orders.push(`${column}.${direction}${options.nulls ? `.nulls${options.nulls}` : ''}`);
+    return this;
+  }
+
+  /**
+   * 键集分页：从 (column, idColumn) = position 之后继续，并按同一方向排序
+   *
+   * `desc` 返回位置之前（更小）的行，`asc` 返回位置之后（更大）的行。
+   */
+  seek<C extends Column<Row>, I extends Column<Row>>(
+    [column, idColumn]: [C, I],
+    position: [ColumnValue<Row, C>, ColumnValue<Row, I>],
+    direction: 'asc' | 'desc'
+  ): this {
+    const [value, id] = position;
+    const past = direction === 'desc' ? 'lt' : 'gt';
+
+    return this.or((f) =>
+      f.filter(column, past, value).and((g) => g.eq(column, value).filter(idColumn, past, id))
+    )
+      .order(column, direction)
+      .order(idColumn, direction);
+  }
+
+  /** 最多返回的行数 */
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  /** 跳过的行数 */
+  offset(count: number): this {
+    this.offsetCount = count;
+    return this;
+  }
+
+  /** 返回第 from 到第 to 行（从 0 开始，包含两端） */
+  range(from: number, to: number): this {
+    this.offsetCount = from;
+    this.limitCount = to - from + 1;
+    return this;
+  }
+
+  /** 同时返回总数 */
+  count(mode: NonNullable<QueryOptions['count']> = 'exact'): this {
+    this.countMode = mode;
+    return this;
+  }
+
+  /**
+   * 转换为 DbClient 查询选项
+   */
+  toOptions(): QueryOptions {
+    return {
+      ...(this.columns ? { select: this.columns } : {}),
+      filter: this.toFilter(),
+      ...(this.orders.length > 0 ? { order: this.orders.join(',') } : {}),
+      ...(this.limitCount !== undefined ? { limit: this.limitCount } : {}),
+      ...(this.offsetCount !== undefined ? { offset: this.offsetCount } : {}),
+      ...(this.countMode ? { count: this.countMode } : {}),
+    };
+  }
+
+  /**
+   * 执行查询
+   */
+  get(): Promise<QueryResultWithCount<Result>> {
+    return this.db.get<Result>(this.table, this.toOptions());
+  }
+
+  /**
+   * 执行查询，返回第一行（没有则为 null）
+   */
+  maybeSingle(): Promise<Result | null> {
+    return this.db.getOne<Result>(this.table, this.toOptions());
+  }
+
+  /**
+   * 更新匹配的行（没有过滤条件时拒绝执行，避免误改整张表）
+   */
+  update(data: Partial<Row>, options: MutationOptions = {}): Promise<Row[]> {
+    if (this.nodes.length === 0) {
+      return Promise.reject(this.unfiltered('update'));
+    }
+    return this.db.patch<Row>(this.table, this.toFilter(), data, options);
+  }
+
+  /**
+   * 删除匹配的行（没有过滤条件时拒绝执行，避免误删整张表）
+   */
+  delete(): Promise<void> {
+    if (this.nodes.length === 0) {
+      return Promise.reject(this.unfiltered('delete'));
+    }
+    return this.db.delete(this.table, this.toFilter());
+  }
+
+  then<TResult1 = QueryResultWithCount<Result>, TResult2 = never>(
+    onfulfilled?: ((value: QueryResultWithCount<Result>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.get().then(onfulfilled, onrejected);
+  }
+
+  private toFilter(): FilterEntries {
+    return this.nodes.map(renderParam);
+  }
+
+  private unfiltered(operation: 'update' | 'delete'): ProtocolError {
+    return new ProtocolError(`Refusing to ${operation} ${this.table} without filters`, {
+      table: this.table,
+      operation,
+    });
+  }
+}
+
+/**
+ * 顶层条件 → 查询参数（`column=op.value`、`or=(...)`）
+ */
+function renderParam(node: FilterNode): [string, string] {
+  const not = node.negate ? 'not.' : '';
+
+  if (node.kind === 'group') {
+    return [`${not}${node.type}`, `(${node.nodes.map(renderNested).join(',')})`];
+  }
+
+  return [node.column, `${not}${node.operator}.${renderValue(node, false)}`];
+}
+
+/**
+ * 逻辑组内的条件（`column.op.value`、`and(...)`）
+ */
+function renderNested(node: FilterNode): string {
+  const not = node.negate ? 'not.' : '';
+
+  if (node.kind === 'group') {
+    return `${not}${node.type}(${node.nodes.map(renderNested).join(',')})`;
+  }
+
+  return `${node.column}.${not}${node.operator}.${renderValue(node, true)}`;
+}
+
+function renderValue(
+  node: Extract<FilterNode, { kind: 'condition' }>,
+  nested: boolean
+): string {
+  if (Array.isArray(node.value)) {
+    return `(${node.value.map((value) => quote(formatValue(value))).join(',')})`;
+  }
+
+  const value = formatValue(node.value);
+
+  // 逻辑组内的值按保留字符切分，必须加引号；is 的值是关键字。
+  // 顶层条件中 PostgREST 只解析第一个运算符，其后的值按原样读取，加引号反而会成为值的一部分
+  return nested && node.operator !== 'is' ? quote(value) : value;
+}
+
+function formatValue(value: FilterValue): string {
+  return value === null ? 'null' : String(value);
+}
+
+/**
+ * 含保留字符的值加双引号，并转义其中的 `"` 和 `\`
+ */
+function quote(value: string): string {
+  if (!RESERVED.test(value)) return value;
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
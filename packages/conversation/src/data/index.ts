@@ -1 +1,10 @@
-export type { QueryOptions, MutationOptions } from './query.types.js';
+export type { QueryOptions, MutationOptions, FilterEntries } from './query.types.js';
+export { QueryBuilder, FilterBuilder } from './QueryBuilder.js';
+export type {
+  FilterValue,
+  FilterOperator,
+  ColumnName,
+  JsonPath,
+  Column,
+  ColumnValue,
+} from './QueryBuilder.js';
@@ -50,8 +50,9 @@ export function buildQueryString(options: QueryOptions = {}): string {
 
   // Filters
   if (options.filter) {
-    for (const [key, value] of Object.entries(options.filter)) {
-      params.set(key, value);
+    const entries = Array.isArray(options.filter) ? options.filter : Object.entries(options.filter);
+    for (const [key, value] of entries) {
+      params.append(key, value);
     }
   }
 
@@ -10,10 +10,11 @@ export interface QueryOptions {
   select?: string;
 
   /**
-   * Filter conditions
+   * Filter conditions (entries allow several conditions on one column)
    * @example { id: "eq.123", status: "neq.deleted" }
+   * @example [["created_at", "gte.100"], ["created_at", "lt.200"]]
    */
-  filter?: Record<string, string>;
+  filter?: Record<string, string> | FilterEntries;
 
   /**
    * Order by clause
@@ -41,6 +42,11 @@ export interface QueryOptions {
   count?: 'exact' | 'planned' | 'estimated';
 }
 
+/**
+ * Filter conditions as [column, condition] pairs
+ */
+export type FilterEntries = Array<[column: string, condition: string]>;
+
 /**
  * PostgREST insert/update options
  */
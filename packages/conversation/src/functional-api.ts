@@ -7,11 +7,22 @@ import { createHttpClient } from './transport/index.js';
 import { DbClient } from './data/DbClient.js';
 import type { ConversationClientConfig } from './types/config.types.js';
 import { getEnvironmentConfig } from './client/EnvironmentConfig.js';
-import { listAppsWithConversations } from './aggregated/apps-with-conversations.js';
+import { queryAppsWithConversations } from './aggregated/apps-with-conversations.js';
 import { getUrlSessionToken } from './session/session-token.js';
+import { createLogger } from './logging/logger.js';
+import { createPollingSource } from './realtime/polling-source.js';
+import { subscribeChanges } from './realtime/subscribe.js';
+import { EntityCache } from './cache/EntityCache.js';
+import type { ChangeHandler, RealtimeTable, SubscribeFilters } from './types/realtime.types.js';
+import type { CachedEntities } from './types/cache.types.js';
 import type { App, ListAppsWithConversationsResult, Message, ConversationResponse, Conversation } from './types/index.js';
-import { MessagesResource } from './resources/MessagesResource.js';
-import { ConversationsResource, type CreateConversationData, type ListConversationsOptions } from './resources/ConversationsResource.js';
+import { MessagesResource, type ListMessagesOptions } from './resources/MessagesResource.js';
+import {
+  ConversationsResource,
+  type CreateConversationData,
+  type ListConversationsOptions,
+  type UpdateConversationData,
+} from './resources/ConversationsResource.js';
 import { AppsResource, type ListAppsOptions } from './resources/AppsResource.js';
 
 /**
@@ -20,6 +31,8 @@ import { AppsResource, type ListAppsOptions } from './resources/AppsResource.js'
 export interface ListResult<T> {
   data: T[];
   hasMore: boolean;
+  /** 下一页游标（传给 before/after 继续翻页，没有更多数据时为 null） */
+  nextCursor?: string | null;
 }
 
 /**
@@ -46,18 +59,31 @@ export function initConversationSdk(config: ConversationClientConfig) {
     urls: envConfig,
   };
 
+  const sessionTokenLogger = createLogger(config.logger, 'conversation:session-token');
+
   // 创建底层客户端
   const http = createHttpClient({
     baseUrl: fullConfig.urls.postgrest,
     fetch: fullConfig.fetch,
     getAuthToken: fullConfig.getToken,
     timeoutMs: fullConfig.timeout,
+    logger: createLogger(config.logger, 'conversation:http'),
   });
 
   const db = new DbClient(http);
-  const messagesResource = new MessagesResource(db);
-  const conversationsResource = new ConversationsResource(db, fullConfig.getToken, fullConfig.urls.auth);
+  const realtime =
+    config.realtime?.source ??
+    createPollingSource(db, {
+      interval: config.realtime?.pollInterval,
+      logger: createLogger(config.logger, 'conversation:realtime'),
+    });
+  const messagesResource = new MessagesResource(db, realtime);
+  const conversationsResource = new ConversationsResource(db, fullConfig.getToken, fullConfig.urls.auth, sessionTokenLogger, realtime);
   const appsResource = new AppsResource(db);
+  const cache = new EntityCache(
+    config.cache === true ? {} : config.cache || undefined,
+    createLogger(config.logger, 'conversation:cache')
+  );
 
   /**
    * 获取应用列表（带分页）
@@ -68,7 +94,9 @@ export function initConversationSdk(config: ConversationClientConfig) {
   async function getAppsList(
     options?: ListAppsOptions
   ): Promise<ListResult<App>> {
-    const result = await appsResource.list(options);
+    const result = await cache.query('apps', JSON.stringify(['apps', options ?? {}]), ['apps'], () =>
+      appsResource.list(options)
+    );
     return {
       data: result.data,
       hasMore: result.pagination.hasNextPage,
@@ -80,22 +108,27 @@ export function initConversationSdk(config: ConversationClientConfig) {
    *
    * 仅查询 conversations 表，不触发 apps 查询。
    * 附带 url_session_token（通过缓存获取，不会每次都请求 auth 服务）。
+   * 无限滚动：把返回的 nextCursor 作为 before 传入获取下一页（不再执行 count）。
    */
   async function getConversationsList(
     options?: ListConversationsOptions
   ): Promise<ConversationsListResult> {
     // 并行获取会话列表和 url_session_token（token 有缓存，通常直接返回）
     const [result, urlSessionToken] = await Promise.all([
-      conversationsResource.list(options),
+      cache.query('conversations', JSON.stringify(['conversations', options ?? {}]), ['conversations'], () =>
+        conversationsResource.list(options)
+      ),
       getUrlSessionToken({
         accessToken: (await fullConfig.getToken()) || '',
         authBaseUrl: fullConfig.urls.auth,
+        logger: sessionTokenLogger,
       }),
     ]);
 
     return {
       data: result.data,
       hasMore: result.pagination.hasNextPage,
+      nextCursor: result.nextCursor ?? null,
       url_session_token: urlSessionToken,
     };
   }
@@ -103,39 +136,64 @@ export function initConversationSdk(config: ConversationClientConfig) {
   /**
    * 获取 Apps 及其会话列表
    * 每个 app 返回全部会话,按最后更新时间倒序排列
+   *
+   * 结果按 apps 和 conversations 标签缓存，任一失效都会重新查询。
    */
   async function getAppsWithConversationsList(options?: {
     appId?: string;
     page?: number;
     pageSize?: number;
   }): Promise<ListAppsWithConversationsResult> {
-    // 获取当前token
-    const accessToken = await fullConfig.getToken();
-
-    return listAppsWithConversations({
-      ...options,
-      db,
-      accessToken: accessToken || '',
-      authBaseUrl: fullConfig.urls.auth,
-    });
+    const [result, urlSessionToken] = await Promise.all([
+      cache.query(
+        'apps',
+        JSON.stringify(['apps-with-conversations', options ?? {}]),
+        ['apps', 'conversations'],
+        async () => {
+          const { apps, hasMore } = await queryAppsWithConversations(db, options);
+          return {
+            data: apps.map(({ app }) => app),
+            conversations: Object.fromEntries(apps.map(({ app, conversations }) => [app.id, conversations])),
+            hasMore,
+          };
+        }
+      ),
+      getUrlSessionToken({
+        accessToken: (await fullConfig.getToken()) || '',
+        authBaseUrl: fullConfig.urls.auth,
+        logger: sessionTokenLogger,
+      }),
+    ]);
+
+    return {
+      apps: result.data.map((app) => ({ app, conversations: result.conversations[app.id] ?? [] })),
+      hasMore: result.hasMore,
+      url_session_token: urlSessionToken,
+    };
   }
 
   /**
    * 获取会话的消息列表(旧 API 格式)
+   *
+   * 无限滚动：首次不传游标，之后把返回的 nextCursor 作为 before 传入，
+   * 新消息到达时不会产生重复或遗漏。
    */
   async function getMessagesList(
     conversationId: string,
-    options?: {
-      page?: number;
-      pageSize?: number;
-    }
-  ): Promise<{ messages: Message[]; hasMore: boolean }> {
-    const result = await messagesResource.list(conversationId, options);
+    options?: ListMessagesOptions
+  ): Promise<{ messages: Message[]; hasMore: boolean; nextCursor: string | null }> {
+    const result = await cache.query(
+      'messages',
+      JSON.stringify(['messages', conversationId, options ?? {}]),
+      ['messages', `messages:${conversationId}`],
+      () => messagesResource.list(conversationId, options)
+    );
 
     // 转换为旧 API 格式:{messages: [...], hasMore: boolean}
     return {
       messages: result.data,
       hasMore: result.pagination.hasNextPage,
+      nextCursor: result.nextCursor ?? null,
     };
   }
 
@@ -143,22 +201,117 @@ export function initConversationSdk(config: ConversationClientConfig) {
    * 创建会话
    */
   async function createConversation(data: CreateConversationData): Promise<ConversationResponse> {
-    return conversationsResource.createWithResponse(data);
+    const response = await conversationsResource.createWithResponse(data);
+    cache.invalidate('conversations');
+    return response;
+  }
+
+  /**
+   * 更新会话
+   */
+  async function updateConversation(conversationId: string, data: UpdateConversationData): Promise<Conversation> {
+    const conversation = await conversationsResource.update(conversationId, data);
+    cache.set('conversations', conversation);
+    // 标题等字段可能影响排序和过滤
+    cache.invalidate('conversations');
+    return conversation;
   }
 
   /**
    * 删除会话
    */
   async function deleteConversation(conversationId: string): Promise<void> {
-    return conversationsResource.delete(conversationId);
+    await conversationsResource.delete(conversationId);
+    cache.remove('conversations', conversationId);
+    cache.invalidate('conversations', `messages:${conversationId}`);
   }
 
+  /**
+   * 订阅会话或消息的变更（insert / update / delete）
+   *
+   * 默认每 5 秒轮询一次；配置 `realtime.source` 可接入 WebSocket/SSE 推送。
+   *
+   * @returns 取消订阅函数
+   *
+   * @example
+   * const unsubscribe = sdk.subscribe('conversations', { appId }, (event) => {
+   *   if (event.type === 'delete') removeConversation(event.id);
+   *   else upsertConversation(event.record);
+   * });
+   */
+  function subscribe<T extends RealtimeTable>(
+    table: T,
+    filter: SubscribeFilters[T],
+    handler: ChangeHandler<T>,
+    onError?: (error: Error) => void
+  ): () => void {
+    return subscribeChanges(
+      realtime,
+      table,
+      filter,
+      (event) => {
+        // 先更新缓存，handler 中重新读取列表时即可拿到新数据
+        if (event.type === 'update') {
+          cache.set(table, event.record as CachedEntities[T]);
+        } else if (event.type === 'delete') {
+          cache.remove(table, event.id);
+        } else {
+          cache.invalidate(
+            table === 'messages'
+              ? `messages:${(filter as SubscribeFilters['messages']).conversationId}`
+              : 'conversations'
+          );
+        }
+
+        handler(event);
+      },
+      onError
+    );
+  }
+
+  /**
+   * 遍历全部数据（自动翻页，可在 for await 中 break 提前结束）
+   *
+   * @example
+   * for await (const message of sdk.messages.iterate(conversationId)) {
+   *   exported.push(message);
+   * }
+   */
+  const conversations = {
+    iterate: (options?: Parameters<ConversationsResource['iterate']>[0]) => conversationsResource.iterate(options),
+  };
+
+  const messages = {
+    iterate: (conversationId: string, options?: Parameters<MessagesResource['iterate']>[1]) =>
+      messagesResource.iterate(conversationId, options),
+  };
+
+  const apps = {
+    iterate: (options?: Parameters<AppsResource['iterate']>[0]) => appsResource.iterate(options),
+  };
+
   return {
     getAppsList,
     getConversationsList,
     getAppsWithConversationsList,
     getMessagesList,
     createConversation,
+    updateConversation,
     deleteConversation,
+    subscribe,
+    conversations,
+    messages,
+    apps,
+    /** 读缓存（按 id 读取实体、手动失效、清空） */
+    cache: {
+      get: cache.get.bind(cache),
+      invalidate: cache.invalidate.bind(cache),
+      clear: cache.clear.bind(cache),
+    },
   };
 }
+
+/**
+ * initConversationSdk 返回的 SDK 实例
+ */
+export type ConversationSdk = ReturnType<typeof initConversationSdk>;
@@ -2,9 +2,11 @@
 // 主 API
 // ═══════════════════════════════════════
 export { initConversationSdk } from './functional-api.js';
-export type { ListResult, ConversationsListResult } from './functional-api.js';
+export type { ListResult, ConversationsListResult, ConversationSdk } from './functional-api.js';
 export { clearUrlSessionTokenCache } from './session/session-token.js';
 export type { ConversationClientConfig } from './types/config.types.js';
+export type { LogLevel, Logger, LoggerOptions } from './types/logger.types.js';
+export type { CacheConfig, CachedEntities, EntityType } from './types/cache.types.js';
 
 // ═══════════════════════════════════════
 // 核心业务类型
@@ -23,8 +25,30 @@ export type {
   ToolCall,
 } from './types/index.js';
 
-export type { CreateConversationData } from './resources/ConversationsResource.js';
+export type {
+  CreateConversationData,
+  UpdateConversationData,
+  ListConversationsOptions,
+} from './resources/ConversationsResource.js';
+export type { ListMessagesOptions } from './resources/MessagesResource.js';
+export type { CursorPaginationOptions } from './types/pagination.types.js';
 export type { ListAppsOptions } from './resources/AppsResource.js';
+export type { IterateOptions } from './pagination/iterate.js';
+
+// ═══════════════════════════════════════
+// 实时订阅
+// ═══════════════════════════════════════
+export type {
+  RealtimeConfig,
+  RealtimeSource,
+  RealtimeTable,
+  RowChange,
+  RowFilter,
+  ChangeEvent,
+  ChangeHandler,
+  SubscribeFilters,
+  SubscribeRecords,
+} from './types/realtime.types.js';
 
 // ═══════════════════════════════════════
 // 错误类型（供错误处理使用）
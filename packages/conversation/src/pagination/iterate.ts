@@ -0,0 +1,105 @@
+import type { CursorPaginationMeta, PaginatedResult, PaginationMeta } from '../types/pagination.types.js';
+
+/**
+ * 遍历选项
+ */
+export interface IterateOptions {
+  /**
+   * 每页数量
+   */
+  pageSize?: number;
+
+  /**
+   * 并行预取的页数（按页码翻页，结果仍按顺序产出）
+   *
+   * 大于 1 时改用 page/offset 分页：首页执行一次 count，之后并行拉取其余页。
+   * 遍历期间有新数据插入时可能出现重复或遗漏，需要稳定结果时保持默认值 1（游标分页）。
+   * @default 1
+   */
+  concurrency?: number;
+
+  /**
+   * 最多产出的条数（达到后停止拉取）
+   */
+  limit?: number;
+}
+
+/**
+ * 按游标顺序遍历全部数据
+ *
+ * 在 `for await` 中 break 或达到 limit 后不再拉取下一页。
+ */
+export async function* iterateByCursor<T>(
+  fetchPage: (cursor: string | undefined) => Promise<PaginatedResult<T, PaginationMeta | CursorPaginationMeta>>,
+  options: IterateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const limit = options.limit ?? Infinity;
+  let count = 0;
+  let cursor: string | undefined;
+
+  while (count < limit) {
+    const result = await fetchPage(cursor);
+
+    for (const item of result.data) {
+      if (count >= limit) return;
+      count++;
+      yield item;
+    }
+
+    if (!result.pagination.hasNextPage || !result.nextCursor) return;
+    cursor = result.nextCursor;
+  }
+}
+
+/**
+ * 按页码遍历全部数据（最多 concurrency 页同时请求）
+ *
+ * 在 `for await` 中 break 或达到 limit 后不再发起新请求，已发出的请求结果会被丢弃。
+ */
+export async function* iterateByPage<T>(
+  fetchPage: (page: number) => Promise<PaginatedResult<T>>,
+  options: IterateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const limit = options.limit ?? Infinity;
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  let count = 0;
+
+  const first = await fetchPage(1);
+  const totalPages = first.pagination.totalPages;
+
+  // 预取队列：按页码顺序保存进行中的请求
+  const queue: Array<Promise<PaginatedResult<T>>> = [];
+  let nextPage = 2;
+
+  const enqueue = () => {
+    const promise = fetchPage(nextPage++);
+    // 提前结束时丢弃的请求不应产生未处理的 rejection
+    promise.catch(() => {});
+    queue.push(promise);
+  };
+
+  const fill = () => {
+    while (queue.length < concurrency && nextPage <= totalPages) {
+      enqueue();
+    }
+  };
+
+  let result = first;
+
+  while (true) {
+    if (count + result.data.length < limit) {
+      fill();
+    }
+
+    for (const item of result.data) {
+      if (count >= limit) return;
+      count++;
+      yield item;
+    }
+
+    const next = queue.shift();
+    if (!next || count >= limit) return;
+
+    result = await next;
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Conversation SDK React 上下文
+ */
+
+import { createContext, createElement, useContext, useMemo, useRef, type MutableRefObject, type ReactNode } from 'react';
+import { initConversationSdk, type ConversationSdk } from '../functional-api.js';
+import type { ConversationClientConfig } from '../types/config.types.js';
+import type { Logger } from '../types/logger.types.js';
+import { QueryCache } from './query-cache.js';
+
+/**
+ * 上下文值
+ */
+export interface ConversationContextValue {
+  sdk: ConversationSdk;
+  cache: QueryCache;
+}
+
+/**
+ * ConversationProvider 属性（`config` 与 `sdk` 二选一）
+ */
+export interface ConversationProviderProps {
+  /**
+   * SDK 配置（由 Provider 创建 SDK 实例）
+   */
+  config?: ConversationClientConfig;
+
+  /**
+   * 已创建的 SDK 实例
+   */
+  sdk?: ConversationSdk;
+
+  children?: ReactNode;
+}
+
+const ConversationContext = createContext<ConversationContextValue | null>(null);
+
+/**
+ * 决定是否重建 SDK 的配置字段（函数和日志输出除外，它们总是读取最新值）
+ */
+function configKey(config: ConversationClientConfig | undefined): unknown[] {
+  const { logger, realtime, cache } = config ?? {};
+  return [
+    config === undefined,
+    config?.environment,
+    config?.token,
+    config?.timeout,
+    config?.getToken !== undefined,
+    config?.fetch !== undefined,
+    logger !== undefined,
+    logger?.level,
+    logger?.redact,
+    logger?.namespaces?.join(','),
+    logger?.output !== undefined,
+    realtime?.source,
+    realtime?.pollInterval,
+    typeof cache === 'object' ? JSON.stringify(cache) : cache,
+  ];
+}
+
+/**
+ * 函数字段和日志输出转发到最新渲染的配置，避免内联写法每次渲染都重建 SDK
+ */
+function latestConfig(ref: MutableRefObject<ConversationClientConfig | undefined>): ConversationClientConfig {
+  const config = ref.current!;
+  const current = () => ref.current ?? config;
+  const output = (): Logger => current().logger?.output ?? config.logger!.output!;
+
+  return {
+    ...config,
+    getToken: config.getToken && (() => (current().getToken ?? config.getToken!)()),
+    fetch: config.fetch && (((input, init) => (current().fetch ?? config.fetch!)(input, init)) as typeof fetch),
+    logger: config.logger && {
+      ...config.logger,
+      output: config.logger.output && {
+        debug: (message, ...args) => output().debug(message, ...args),
+        info: (message, ...args) => output().info(message, ...args),
+        warn: (message, ...args) => output().warn(message, ...args),
+        error: (message, ...args) => output().error(message, ...args),
+      },
+    },
+  };
+}
+
+/**
+ * 为 useConversations / useMessages / useApps 提供 SDK 实例和共享的查询缓存
+ *
+ * `config` 按字段值比较，内联传入的对象和函数不会导致重建；
+ * `realtime.source` 按引用比较，应传入稳定的实例。
+ *
+ * @example
+ * ```tsx
+ * import { ConversationProvider } from '@seaverse/conversation-sdk/react';
+ *
+ * <ConversationProvider config={{ environment: 'prod', token }}>
+ *   <App />
+ * </ConversationProvider>
+ * ```
+ */
+export function ConversationProvider({ config, sdk, children }: ConversationProviderProps) {
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  const value = useMemo<ConversationContextValue>(() => {
+    if (!sdk && !config) {
+      throw new Error('ConversationProvider requires either `config` or `sdk`');
+    }
+
+    return {
+      sdk: sdk || initConversationSdk(latestConfig(configRef)),
+      cache: new QueryCache(),
+    };
+    // config 按 configKey 中的字段比较
+  }, [sdk, ...configKey(config)]);
+
+  return createElement(ConversationContext.Provider, { value }, children);
+}
+
+/**
+ * 获取上下文（必须在 ConversationProvider 内使用）
+ */
+export function useConversationContext(): ConversationContextValue {
+  const context = useContext(ConversationContext);
+  if (!context) {
+    throw new Error('Conversation hooks must be used within a ConversationProvider');
+  }
+  return context;
+}
+
+/**
+ * 获取 SDK 实例
+ */
+export function useConversationSdk(): ConversationSdk {
+  return useConversationContext().sdk;
+}
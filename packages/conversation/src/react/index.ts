@@ -0,0 +1,17 @@
+// ═══════════════════════════════════════
+// React 集成（@seaverse/conversation-sdk/react）
+// ═══════════════════════════════════════
+export {
+  ConversationProvider,
+  useConversationSdk,
+} from './ConversationProvider.js';
+export type { ConversationProviderProps } from './ConversationProvider.js';
+
+export { useConversations } from './useConversations.js';
+export type { UseConversationsOptions, UseConversationsReturn } from './useConversations.js';
+
+export { useMessages } from './useMessages.js';
+export type { UseMessagesOptions, UseMessagesReturn } from './useMessages.js';
+
+export { useApps } from './useApps.js';
+export type { UseAppsOptions, UseAppsReturn } from './useApps.js';
@@ -0,0 +1,69 @@
+/**
+ * 查询缓存 - 请求去重与失效通知
+ */
+
+/**
+ * 失效作用域（一次变更会影响哪些列表）
+ */
+export type QueryScope = 'conversations' | 'messages' | 'apps';
+
+/**
+ * 查询缓存
+ *
+ * - 相同 key 的并发请求只发一次，所有调用方共享同一个 Promise
+ * - 变更成功后按作用域通知订阅的 hook 重新拉取
+ */
+export class QueryCache {
+  private readonly inflight = new Map<string, Promise<unknown>>();
+  private readonly listeners = new Map<QueryScope, Set<() => void>>();
+
+  /**
+   * 请求去重：同一 key 已有进行中的请求时复用其 Promise
+   */
+  dedupe<T>(key: string, request: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const promise = request().finally(() => {
+      if (this.inflight.get(key) === promise) {
+        this.inflight.delete(key);
+      }
+    });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * 订阅作用域失效
+   */
+  subscribe(scope: QueryScope, listener: () => void): () => void {
+    let listeners = this.listeners.get(scope);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(scope, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+    };
+  }
+
+  /**
+   * 使作用域失效：丢弃进行中的请求（变更前发出的结果可能已过期）并通知订阅者
+   */
+  invalidate(...scopes: QueryScope[]): void {
+    scopes.forEach((scope) => {
+      for (const key of [...this.inflight.keys()]) {
+        if (key.startsWith(`${scope}:`)) {
+          this.inflight.delete(key);
+        }
+      }
+
+      this.listeners.get(scope)?.forEach((listener) => listener());
+    });
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * 应用列表 hook
+ */
+
+import type { App, AppWithConversations } from '../types/models.types.js';
+import { useConversationContext } from './ConversationProvider.js';
+import { usePaginatedList } from './usePaginatedList.js';
+
+/**
+ * useApps 选项
+ */
+export interface UseAppsOptions {
+  /**
+   * 按应用 ID 过滤（仅 withConversations 时生效）
+   */
+  appId?: string;
+
+  /**
+   * 同时返回每个应用的会话（getAppsWithConversationsList）
+   * @default false
+   */
+  withConversations?: boolean;
+
+  /**
+   * 每页数量
+   * @default 20
+   */
+  pageSize?: number;
+
+  /**
+   * 是否查询（为 false 时不发请求）
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * useApps 返回值
+ */
+export interface UseAppsReturn<T> {
+  /** 已加载的应用 */
+  apps: T[];
+  /** 首次加载或刷新中 */
+  isLoading: boolean;
+  /** 加载下一页中 */
+  isLoadingMore: boolean;
+  /** 最近一次加载错误 */
+  error: Error | null;
+  /** 是否还有下一页 */
+  hasMore: boolean;
+  /** url_session_token（仅 withConversations 时返回） */
+  urlSessionToken: string | null;
+  /** 加载下一页 */
+  loadMore: () => Promise<void>;
+  /** 重新拉取已加载的页 */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 应用列表（分页、请求去重）
+ *
+ * 会话创建或删除后自动重新拉取。
+ *
+ * @example
+ * ```tsx
+ * const { apps } = useApps();
+ * const { apps: appsWithConversations } = useApps({ withConversations: true });
+ * ```
+ */
+export function useApps(
+  options: UseAppsOptions & { withConversations: true }
+): UseAppsReturn<AppWithConversations>;
+export function useApps(options?: UseAppsOptions): UseAppsReturn<App>;
+export function useApps(options: UseAppsOptions = {}): UseAppsReturn<App | AppWithConversations> {
+  const { sdk } = useConversationContext();
+  const { appId, withConversations = false, pageSize = 20, enabled = true } = options;
+
+  const list = usePaginatedList<App | AppWithConversations>({
+    key: enabled ? `${withConversations ? 'with-conversations' : 'list'}:${appId ?? '*'}` : null,
+    scopes: ['apps'],
+    pageSize,
+    getId: (item) => ('app' in item ? item.app.id : item.id),
+    fetchPage: async (page, size) => {
+      if (withConversations) {
+        const result = await sdk.getAppsWithConversationsList({ appId, page, pageSize: size });
+        return {
+          items: result.apps,
+          hasMore: result.hasMore,
+          urlSessionToken: result.url_session_token,
+        };
+      }
+
+      const result = await sdk.getAppsList({ page, pageSize: size });
+      return {
+        items: result.data,
+        hasMore: result.hasMore,
+      };
+    },
+  });
+
+  return {
+    apps: list.items,
+    isLoading: list.isLoading,
+    isLoadingMore: list.isLoadingMore,
+    error: list.error,
+    hasMore: list.hasMore,
+    urlSessionToken: list.urlSessionToken,
+    loadMore: list.loadMore,
+    refresh: list.refresh,
+  };
+}
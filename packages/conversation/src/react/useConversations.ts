@@ -0,0 +1,175 @@
+/**
+ * 会话列表 hook
+ */
+
+import { useCallback, useRef } from 'react';
+import type { Conversation, ConversationResponse } from '../types/models.types.js';
+import type { CreateConversationData } from '../resources/ConversationsResource.js';
+import { transformConversation } from '../transforms/conversation.transform.js';
+import { useConversationContext } from './ConversationProvider.js';
+import { usePaginatedList, toError } from './usePaginatedList.js';
+
+/**
+ * useConversations 选项
+ */
+export interface UseConversationsOptions {
+  /**
+   * 按应用 ID 过滤
+   */
+  appId?: string;
+
+  /**
+   * 每页数量
+   * @default 20
+   */
+  pageSize?: number;
+
+  /**
+   * 是否查询（为 false 时不发请求）
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * useConversations 返回值
+ */
+export interface UseConversationsReturn {
+  /** 已加载的会话（最近创建的在前） */
+  conversations: Conversation[];
+  /** 首次加载或刷新中 */
+  isLoading: boolean;
+  /** 加载下一页中 */
+  isLoadingMore: boolean;
+  /** 最近一次加载或变更错误 */
+  error: Error | null;
+  /** 是否还有下一页 */
+  hasMore: boolean;
+  /** 列表接口附带的 url_session_token */
+  urlSessionToken: string | null;
+  /** 加载下一页 */
+  loadMore: () => Promise<void>;
+  /** 重新拉取已加载的页 */
+  refresh: () => Promise<void>;
+  /** 创建会话（先插入临时会话，成功后替换，失败时回滚） */
+  createConversation: (data: CreateConversationData) => Promise<ConversationResponse>;
+  /** 删除会话（先从列表移除，失败时恢复） */
+  deleteConversation: (conversationId: string) => Promise<void>;
+}
+
+/**
+ * 会话列表（分页、乐观创建/删除、请求去重）
+ *
+ * 变更成功后，同一 Provider 下的其他会话列表和应用列表会重新拉取。
+ *
+ * @example
+ * ```tsx
+ * const { conversations, hasMore, loadMore, createConversation } = useConversations({ appId });
+ * ```
+ */
+export function useConversations(options: UseConversationsOptions = {}): UseConversationsReturn {
+  const { sdk, cache } = useConversationContext();
+  const { appId, pageSize = 20, enabled = true } = options;
+
+  const list = usePaginatedList<Conversation>({
+    key: enabled ? `${appId ?? '*'}` : null,
+    scopes: ['conversations'],
+    pageSize,
+    getId: (conversation) => conversation.id,
+    fetchPage: async (page, size, cursor) => {
+      const result = await sdk.getConversationsList(
+        cursor ? { appId, before: cursor, pageSize: size } : { appId, page, pageSize: size }
+      );
+      return {
+        items: result.data,
+        hasMore: result.hasMore,
+        urlSessionToken: result.url_session_token,
+        nextCursor: result.nextCursor,
+      };
+    },
+  });
+
+  const { setItems, setError } = list;
+
+  // 当前列表（乐观删除失败时按原位置恢复）
+  const itemsRef = useRef(list.items);
+  itemsRef.current = list.items;
+
+  const createConversation = useCallback(
+    async (data: CreateConversationData) => {
+      const now = Date.now();
+      const tempId = `temp_${now}_${Math.random().toString(36).slice(2, 9)}`;
+      const matchesFilter = !appId || data.appId === appId;
+
+      if (matchesFilter) {
+        setItems((prev) => [
+          {
+            id: tempId,
+            title: data.title,
+            appId: data.appId ?? null,
+            userId: data.userId,
+            createdAt: now,
+            updatedAt: now,
+            lastActiveAt: now,
+            messageCount: 0,
+          },
+          ...prev,
+        ]);
+      }
+
+      try {
+        const response = await sdk.createConversation(data);
+
+        setItems((prev) =>
+          prev.map((conversation) =>
+            conversation.id === tempId ? transformConversation(response) : conversation
+          )
+        );
+        cache.invalidate('conversations', 'apps');
+
+        return response;
+      } catch (err) {
+        setItems((prev) => prev.filter((conversation) => conversation.id !== tempId));
+        setError(toError(err));
+        throw err;
+      }
+    },
+    [sdk, cache, appId, setItems, setError]
+  );
+
+  const deleteConversation = useCallback(
+    async (conversationId: string) => {
+      const index = itemsRef.current.findIndex((conversation) => conversation.id === conversationId);
+      const removed = index === -1 ? null : itemsRef.current[index];
+
+      if (removed) {
+        setItems((prev) => prev.filter((conversation) => conversation.id !== conversationId));
+      }
+
+      try {
+        await sdk.deleteConversation(conversationId);
+        cache.invalidate('conversations', 'apps');
+      } catch (err) {
+        if (removed) {
+          setItems((prev) => [...prev.slice(0, index), removed, ...prev.slice(index)]);
+        }
+        setError(toError(err));
+        throw err;
+      }
+    },
+    [sdk, cache, setItems, setError]
+  );
+
+  return {
+    conversations: list.items,
+    isLoading: list.isLoading,
+    isLoadingMore: list.isLoadingMore,
+    error: list.error,
+    hasMore: list.hasMore,
+    urlSessionToken: list.urlSessionToken,
+    loadMore: list.loadMore,
+    refresh: list.refresh,
+    createConversation,
+    deleteConversation,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * 消息列表 hook
+ */
+
+import { useMemo } from 'react';
+import type { Message } from '../types/models.types.js';
+import { useConversationContext } from './ConversationProvider.js';
+import { usePaginatedList } from './usePaginatedList.js';
+
+/**
+ * useMessages 选项
+ */
+export interface UseMessagesOptions {
+  /**
+   * 每页数量
+   * @default 50
+   */
+  pageSize?: number;
+}
+
+/**
+ * useMessages 返回值
+ */
+export interface UseMessagesReturn {
+  /** 已加载的消息（按时间正序，最早的在前） */
+  messages: Message[];
+  /** 首次加载或刷新中 */
+  isLoading: boolean;
+  /** 加载更早的消息中 */
+  isLoadingMore: boolean;
+  /** 最近一次加载错误 */
+  error: Error | null;
+  /** 是否还有更早的消息 */
+  hasMore: boolean;
+  /** 加载更早的一页 */
+  loadMore: () => Promise<void>;
+  /** 重新拉取已加载的页 */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 会话消息列表（向前翻页、请求去重）
+ *
+ * 服务端按时间倒序分页，`loadMore` 按游标加载更早的消息（新消息到达不影响翻页）；
+ * 返回的 `messages` 已转为正序。
+ * `conversationId` 为空时不发请求。
+ *
+ * @example
+ * ```tsx
+ * const { messages, hasMore, loadMore } = useMessages(conversationId);
+ * ```
+ */
+export function useMessages(
+  conversationId: string | null | undefined,
+  options: UseMessagesOptions = {}
+): UseMessagesReturn {
+  const { sdk } = useConversationContext();
+  const { pageSize = 50 } = options;
+
+  const list = usePaginatedList<Message>({
+    key: conversationId || null,
+    scopes: ['messages'],
+    pageSize,
+    getId: (message) => message.id,
+    fetchPage: async (page, size, cursor) => {
+      const result = await sdk.getMessagesList(
+        conversationId!,
+        cursor ? { before: cursor, pageSize: size } : { page, pageSize: size }
+      );
+      return {
+        items: result.messages,
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
+      };
+    },
+  });
+
+  const messages = useMemo(() => [...list.items].reverse(), [list.items]);
+
+  return {
+    messages,
+    isLoading: list.isLoading,
+    isLoadingMore: list.isLoadingMore,
+    error: list.error,
+    hasMore: list.hasMore,
+    loadMore: list.loadMore,
+    refresh: list.refresh,
+  };
+}
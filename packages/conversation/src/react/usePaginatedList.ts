@@ -0,0 +1,201 @@
+/**
+ * 分页列表 hook（内部使用）- 无限滚动、请求去重、失效后重新拉取
+ */
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import { useConversationContext } from './ConversationProvider.js';
+import type { QueryScope } from './query-cache.js';
+
+/**
+ * 单页结果
+ */
+export interface PageResult<T> {
+  items: T[];
+  hasMore: boolean;
+  /** 列表接口附带的 url_session_token */
+  urlSessionToken?: string | null;
+  /** 下一页游标（有游标时 loadMore 按游标翻页，不再按页码偏移） */
+  nextCursor?: string | null;
+}
+
+/**
+ * 分页列表配置
+ */
+export interface PaginatedListConfig<T> {
+  /**
+   * 查询 key（同一 key 的并发请求只发一次）；为 null 时不查询
+   */
+  key: string | null;
+
+  /**
+   * 失效作用域
+   */
+  scopes: QueryScope[];
+
+  /**
+   * 拉取一页（cursor 为上一页返回的 nextCursor，没有时按 page 翻页）
+   */
+  fetchPage: (page: number, pageSize: number, cursor?: string) => Promise<PageResult<T>>;
+
+  /**
+   * 每页数量
+   */
+  pageSize: number;
+
+  /**
+   * 去重用的 ID
+   */
+  getId: (item: T) => string;
+}
+
+/**
+ * 分页列表状态
+ */
+export interface PaginatedList<T> {
+  items: T[];
+  setItems: Dispatch<SetStateAction<T[]>>;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: Error | null;
+  setError: Dispatch<SetStateAction<Error | null>>;
+  hasMore: boolean;
+  urlSessionToken: string | null;
+  loadMore: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+/**
+ * 分页列表
+ *
+ * 刷新时一次性重新拉取已加载的全部页（page 1，pageSize × 已加载页数）。
+ * 接口返回 nextCursor 时 loadMore 按游标翻页，新数据插入不会造成重复或遗漏；
+ * 否则按页码翻页，插入导致的重复项按 ID 去重。
+ */
+export function usePaginatedList<T>(config: PaginatedListConfig<T>): PaginatedList<T> {
+  const { cache } = useConversationContext();
+  const { key, scopes, pageSize } = config;
+
+  const [items, setItems] = useState<T[]>([]);
+  const [isLoading, setIsLoading] = useState(key !== null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [urlSessionToken, setUrlSessionToken] = useState<string | null>(null);
+
+  // 最新的回调，避免内联函数导致重复请求
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  // 已加载页数
+  const pagesRef = useRef(0);
+  // 下一页游标（null：按页码翻页）
+  const cursorRef = useRef<string | null>(null);
+  // 请求代次：key 变化或刷新后，丢弃旧请求的结果
+  const generationRef = useRef(0);
+
+  const fetch = useCallback(
+    (page: number, size: number, cursor?: string) =>
+      cache.dedupe(`${scopes[0]}:${key}:${cursor ?? page}:${size}`, () =>
+        configRef.current.fetchPage(page, size, cursor)
+      ),
+    [cache, key, scopes.join(',')]
+  );
+
+  const refresh = useCallback(async () => {
+    if (key === null) return;
+
+    const generation = ++generationRef.current;
+    const pages = Math.max(pagesRef.current, 1);
+
+    setIsLoading(true);
+    try {
+      const result = await fetch(1, pageSize * pages);
+      if (generation !== generationRef.current) return;
+
+      pagesRef.current = pages;
+      cursorRef.current = result.nextCursor ?? null;
+      setItems(dedupeById(result.items, configRef.current.getId));
+      setHasMore(result.hasMore);
+      if (result.urlSessionToken !== undefined) setUrlSessionToken(result.urlSessionToken);
+      setError(null);
+    } catch (err) {
+      if (generation === generationRef.current) setError(toError(err));
+    } finally {
+      if (generation === generationRef.current) setIsLoading(false);
+    }
+  }, [fetch, key, pageSize]);
+
+  const loadMore = useCallback(async () => {
+    if (key === null || !hasMore || isLoadingMore) return;
+
+    const generation = generationRef.current;
+    const page = pagesRef.current + 1;
+
+    setIsLoadingMore(true);
+    try {
+      const result = await fetch(page, pageSize, cursorRef.current ?? undefined);
+      if (generation !== generationRef.current) return;
+
+      pagesRef.current = page;
+      cursorRef.current = result.nextCursor ?? null;
+      setItems((prev) => dedupeById([...prev, ...result.items], configRef.current.getId));
+      setHasMore(result.hasMore);
+      setError(null);
+    } catch (err) {
+      if (generation === generationRef.current) setError(toError(err));
+    } finally {
+      if (generation === generationRef.current) setIsLoadingMore(false);
+    }
+  }, [fetch, key, pageSize, hasMore, isLoadingMore]);
+
+  // key 变化：重置并加载第一页
+  useEffect(() => {
+    pagesRef.current = 0;
+    cursorRef.current = null;
+    setItems([]);
+    setHasMore(false);
+    setIsLoadingMore(false);
+    setError(null);
+
+    if (key === null) {
+      generationRef.current++;
+      setIsLoading(false);
+      return;
+    }
+
+    refresh();
+  }, [key, pageSize]);
+
+  // 其他组件的变更使列表失效
+  useEffect(() => {
+    const unsubscribes = scopes.map((scope) => cache.subscribe(scope, () => refresh()));
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [cache, refresh, scopes.join(',')]);
+
+  return {
+    items,
+    setItems,
+    isLoading,
+    isLoadingMore,
+    error,
+    setError,
+    hasMore,
+    urlSessionToken,
+    loadMore,
+    refresh,
+  };
+}
+
+function dedupeById<T>(items: T[], getId: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const id = getId(item);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
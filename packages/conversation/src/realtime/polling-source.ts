@@ -0,0 +1,198 @@
+/**
+ * 轮询实时源 - 定期查询 `updated_at >= lastSeen` 的行并转换为变更事件
+ */
+
+import type { DbClient } from '../data/DbClient.js';
+import type { Logger } from '../types/logger.types.js';
+import type { RealtimeSource, RealtimeTable, RowChange, RowFilter } from '../types/realtime.types.js';
+import { silentLogger } from '../logging/logger.js';
+
+/**
+ * 轮询源选项
+ */
+export interface PollingSourceOptions {
+  /**
+   * 轮询间隔（毫秒）
+   * @default 5000
+   */
+  interval?: number;
+
+  /**
+   * 每次查询的最大行数（满一批时立即继续查询）
+   * @default 100
+   */
+  batchSize?: number;
+
+  /**
+   * 日志
+   */
+  logger?: Logger;
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * 各表的游标列、主键列，以及是否能发现更新
+ *
+ * messages 表没有 updated_at，只能发现新增的消息。
+ */
+const TABLES: Record<RealtimeTable, { cursor: string; id: string; updates: boolean }> = {
+  conversations: { cursor: 'updated_at', id: 'conversation_id', updates: true },
+  messages: { cursor: 'created_at', id: 'id', updates: false },
+};
+
+interface Subscription {
+  table: RealtimeTable;
+  filter: RowFilter;
+  // 行按未声明类型处理（查询结果直接透传）
+  onChange: (change: { type: RowChange['type']; row: Row }) => void;
+}
+
+/**
+ * 创建轮询实时源
+ *
+ * - 订阅时以当前最新一行为起点，之前的数据不会产生事件
+ * - 时间戳为秒级：每次轮询从最新一秒的开头按 (时间戳, 主键) 键集分页重新扫描，
+ *   同一秒内的行按主键和内容去重，同一秒内再次更新的行（内容变化）也会产生事件
+ * - 删除无法通过轮询发现，只有经由 SDK 删除的数据会产生 delete 事件
+ */
+export function createPollingSource(db: DbClient, options: PollingSourceOptions = {}): RealtimeSource {
+  const interval = options.interval ?? 5000;
+  const batchSize = options.batchSize ?? 100;
+  const logger = options.logger ?? silentLogger;
+  const subscriptions = new Set<Subscription>();
+
+  function query(table: RealtimeTable, filter: RowFilter) {
+    const builder = db.from<Row>(table);
+    for (const [column, value] of Object.entries(filter)) {
+      builder.eq(column, value);
+    }
+    return builder;
+  }
+
+  return {
+    subscribe(table, filter, onChange, onError) {
+      const { cursor, id, updates } = TABLES[table];
+      const idOf = (row: Row): string => String(row[id] ?? '');
+      const subscription: Subscription = { table, filter, onChange: onChange as unknown as Subscription['onChange'] };
+
+      let stopped = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      // 起点之后新建的行首次出现时为 insert
+      let baseline = 0;
+      let lastSeen = 0;
+      // 时间戳等于 lastSeen 的行的快照（主键 → 内容），下次扫描时跳过未变化的行
+      let snapshots = new Map<string, string>();
+      const inserted = new Set<string>();
+
+      const snapshotOf = (row: Row): string => (updates ? JSON.stringify(row) : '');
+
+      const advance = (row: Row) => {
+        const value = Number(row[cursor]);
+        if (value > lastSeen) {
+          lastSeen = value;
+          snapshots = new Map();
+        }
+        snapshots.set(idOf(row), snapshotOf(row));
+      };
+
+      /**
+       * 从 lastSeen 这一秒的开头按 (cursor, id) 键集分页扫描；visit 返回 false 时停止
+       */
+      async function scan(visit: (row: Row) => boolean): Promise<void> {
+        let after: [number, string] | null = null;
+
+        while (!stopped) {
+          const builder = query(table, filter);
+          const batch = await (after
+            ? builder.seek([cursor, id], after, 'asc')
+            : builder.gte(cursor, lastSeen).order(cursor, 'asc').order(id, 'asc')
+          ).limit(batchSize);
+          if (stopped) return;
+
+          for (const row of batch.data) {
+            if (!visit(row)) return;
+          }
+
+          // 满一批时从最后一行之后继续（同一秒内超过 batchSize 行也能向前推进）
+          const last: Row | undefined = batch.data[batch.data.length - 1];
+          if (!last || batch.data.length < batchSize) return;
+          after = [Number(last[cursor]), idOf(last)];
+        }
+      }
+
+      async function start(): Promise<void> {
+        const latest = await query(table, filter).order(cursor, 'desc').limit(1);
+        const top = latest.data[0];
+        if (!top) return;
+
+        baseline = Number(top[cursor]);
+        lastSeen = baseline;
+        await scan((row) => {
+          if (Number(row[cursor]) !== baseline) return false;
+          advance(row);
+          return true;
+        });
+      }
+
+      async function poll(): Promise<void> {
+        await scan((row) => {
+          const rowId = idOf(row);
+          if (Number(row[cursor]) === lastSeen && snapshots.get(rowId) === snapshotOf(row)) return true;
+
+          advance(row);
+
+          const isNew = table === 'messages' || (Number(row.created_at) > baseline && !inserted.has(rowId));
+          if (isNew && table === 'conversations') inserted.add(rowId);
+
+          subscription.onChange({ type: isNew ? 'insert' : 'update', row });
+          return true;
+        });
+      }
+
+      // 起点查询失败时下次重试，避免把历史数据当作变更
+      let started = false;
+
+      async function tick(): Promise<void> {
+        if (started) return poll();
+        await start();
+        started = true;
+      }
+
+      function run(): void {
+        tick()
+          .catch((error) => {
+            logger.warn('Polling failed', { table, error });
+            onError?.(error instanceof Error ? error : new Error(String(error)));
+          })
+          .finally(() => {
+            if (!stopped) timer = setTimeout(run, interval);
+          });
+      }
+
+      subscriptions.add(subscription);
+      logger.debug('Subscribe', { table, filter, interval });
+      run();
+
+      return () => {
+        stopped = true;
+        if (timer) clearTimeout(timer);
+        subscriptions.delete(subscription);
+      };
+    },
+
+    notifyDeleted(table, row) {
+      const deleted = row as Row;
+
+      subscriptions.forEach((subscription) => {
+        if (subscription.table !== table) return;
+
+        // 过滤列不在删除数据中时无法判断，按匹配处理
+        const matches = Object.entries(subscription.filter).every(
+          ([column, value]) => deleted[column] === undefined || deleted[column] === value
+        );
+        if (matches) subscription.onChange({ type: 'delete', row: deleted });
+      });
+    },
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * 实时订阅 - 把实时源的行变更转换为前端模型事件
+ */
+
+import type { DbSchema } from '../types/models.types.js';
+import type {
+  ChangeEvent,
+  ChangeHandler,
+  RealtimeSource,
+  RealtimeTable,
+  RowChange,
+  RowFilter,
+  SubscribeFilters,
+  SubscribeRecords,
+} from '../types/realtime.types.js';
+import { transformConversation } from '../transforms/conversation.transform.js';
+import { transformMessage } from '../transforms/message.transform.js';
+
+/**
+ * 订阅过滤条件 → 行过滤条件
+ */
+function toRowFilter<T extends RealtimeTable>(table: T, filter: SubscribeFilters[T]): RowFilter {
+  if (table === 'messages') {
+    return { conversation_id: (filter as SubscribeFilters['messages']).conversationId };
+  }
+
+  const { appId } = filter as SubscribeFilters['conversations'];
+  return appId ? { app_id: appId } : {};
+}
+
+/**
+ * 行变更 → 订阅事件
+ */
+function toEvent<T extends RealtimeTable>(table: T, change: RowChange<T>): ChangeEvent<SubscribeRecords[T]> {
+  if (change.type === 'delete') {
+    // 按各表主键取 id（消息行的 conversation_id 是所属会话，不是消息 id）
+    const id =
+      table === 'messages'
+        ? (change.row as Partial<DbSchema.Message>).id
+        : (change.row as Partial<DbSchema.Conversation>).conversation_id;
+    return { type: 'delete', id: String(id ?? '') };
+  }
+
+  const record =
+    table === 'messages'
+      ? transformMessage(change.row as DbSchema.Message)
+      : transformConversation(change.row as DbSchema.Conversation);
+
+  return { type: change.type, record: record as SubscribeRecords[T] };
+}
+
+/**
+ * 订阅表的变更
+ *
+ * 事件可能重复（如轮询与推送同时生效），建议按 id 合并到列表中。
+ *
+ * @returns 取消订阅函数
+ */
+export function subscribeChanges<T extends RealtimeTable>(
+  source: RealtimeSource,
+  table: T,
+  filter: SubscribeFilters[T],
+  handler: ChangeHandler<T>,
+  onError?: (error: Error) => void
+): () => void {
+  return source.subscribe(table, toRowFilter(table, filter), (change) => handler(toEvent(table, change)), onError);
+}
@@ -1,7 +1,8 @@
 import type { DbClient } from '../data/DbClient.js';
-import type { App, DbSchema } from '../types/models.types.js';
+import type { App } from '../types/models.types.js';
 import type { PaginationOptions, PaginatedResult } from '../types/pagination.types.js';
 import { calculatePaginationMeta, pageToOffset } from '../types/pagination.types.js';
+import { iterateByPage, type IterateOptions } from '../pagination/iterate.js';
 import { transformApp } from '../transforms/app.transform.js';
 
 /**
@@ -40,18 +41,17 @@ export class AppsResource {
     const pageSize = options.pageSize || 20;
     const { limit, offset } = pageToOffset(page, pageSize);
 
+    const query = this.db.from('apps');
+
     // 构建过滤条件
-    const filter: Record<string, string> = {};
-    if (options.userId) filter.user_id = `eq.${options.userId}`;
-    if (options.status) filter.status = `eq.${options.status}`;
+    if (options.userId) query.eq('user_id', options.userId);
+    if (options.status) query.eq('status', options.status);
 
-    const dbApps = await this.db.get<DbSchema.App>('apps', {
-      filter,
-      order: `created_at.${options.order || 'desc'}`,
-      limit,
-      offset,
-      count: 'exact',
-    });
+    const dbApps = await query
+      .order('created_at', options.order || 'desc')
+      .limit(limit)
+      .offset(offset)
+      .count('exact');
 
     // 获取总数（从响应头）
     const total = dbApps.count || 0;
@@ -67,12 +67,23 @@ export class AppsResource {
    * 获取单个应用
    */
   async get(id: string): Promise<App | null> {
-    const dbApp = await this.db.getOne<DbSchema.App>('apps', {
-      filter: { app_id: `eq.${id}` },
-    });
+    const dbApp = await this.db.from('apps').eq('app_id', id).maybeSingle();
 
     if (!dbApp) return null;
 
     return transformApp(dbApp);
   }
+
+  /**
+   * 遍历全部应用（自动翻页）
+   *
+   * @example
+   * for await (const app of client.apps.iterate({ status: 'published' })) {
+   *   console.log(app.name);
+   * }
+   */
+  iterate(options: Omit<ListAppsOptions, 'page'> & IterateOptions = {}): AsyncGenerator<App, void, undefined> {
+    const { concurrency, limit, ...listOptions } = options;
+    return iterateByPage((page) => this.list({ ...listOptions, page }), { concurrency, limit });
+  }
 }
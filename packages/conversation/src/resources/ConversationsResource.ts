@@ -6,8 +6,23 @@ import type {
   ListAppsWithConversationsResult,
   DbSchema
 } from '../types/models.types.js';
-import type { PaginationOptions, PaginatedResult } from '../types/pagination.types.js';
-import { calculatePaginationMeta, pageToOffset } from '../types/pagination.types.js';
+import type {
+  PaginationOptions,
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../types/pagination.types.js';
+import {
+  calculatePaginationMeta,
+  cursorPaginationMeta,
+  decodeCursor,
+  encodeCursor,
+  pageToOffset,
+} from '../types/pagination.types.js';
+import { ProtocolError } from '../errors/ProtocolError.js';
+import { iterateByCursor, iterateByPage, type IterateOptions } from '../pagination/iterate.js';
+import type { Logger } from '../types/logger.types.js';
+import type { RealtimeSource } from '../types/realtime.types.js';
 import { transformConversation, toDbConversation, toConversationResponse } from '../transforms/conversation.transform.js';
 import { transformApp } from '../transforms/app.transform.js';
 import { listAppsWithConversations as listAppsWithConversationsAggregated } from '../aggregated/apps-with-conversations.js';
@@ -15,7 +30,7 @@ import { listAppsWithConversations as listAppsWithConversationsAggregated } from
 /**
  * 会话列表查询选项
  */
-export interface ListConversationsOptions extends PaginationOptions {
+export interface ListConversationsOptions extends PaginationOptions, CursorPaginationOptions {
   /**
    * 按应用 ID 过滤
    */
@@ -27,13 +42,13 @@ export interface ListConversationsOptions extends PaginationOptions {
   userId?: string;
 
   /**
-   * 排序字段
+   * 排序字段（游标分页时固定按 createdAt，忽略此项）
    * @default 'createdAt'
    */
   orderBy?: 'createdAt' | 'updatedAt' | 'lastActiveAt';
 
   /**
-   * 排序方向
+   * 排序方向（游标分页时由 before/after 决定）
    * @default 'desc'
    */
   order?: 'asc' | 'desc';
@@ -62,55 +77,119 @@ export class ConversationsResource {
   constructor(
     private readonly db: DbClient,
     private readonly getAccessToken?: () => string | null | Promise<string | null>,
-    private readonly authBaseUrl?: string
+    private readonly authBaseUrl?: string,
+    private readonly logger?: Logger,
+    private readonly realtime?: RealtimeSource
   ) {}
 
   /**
    * 列出会话（带分页）
+   *
+   * 传入 before/after 时返回游标分页结果（pagination 不含页码和总数）。
    */
-  async list(options: ListConversationsOptions = {}): Promise<PaginatedResult<Conversation>> {
-    // 分页参数
-    const page = options.page || 1;
+  list(options?: ListConversationsOptions & { before?: undefined; after?: undefined }): Promise<PaginatedResult<Conversation>>;
+  list(options?: ListConversationsOptions): Promise<PaginatedResult<Conversation> | CursorPaginatedResult<Conversation>>;
+  async list(options: ListConversationsOptions = {}): Promise<PaginatedResult<Conversation> | CursorPaginatedResult<Conversation>> {
     const pageSize = options.pageSize || 20;
-    const { limit, offset } = pageToOffset(page, pageSize);
+    const cursor = options.before ?? options.after;
+
+    const query = this.db.from('conversations');
 
     // 构建过滤条件
-    const filter: Record<string, string> = {};
-    if (options.appId) filter.app_id = `eq.${options.appId}`;
-    if (options.userId) filter.user_id = `eq.${options.userId}`;
+    if (options.appId) query.eq('app_id', options.appId);
+    if (options.userId) query.eq('user_id', options.userId);
+
+    // 游标分页：按 (created_at, conversation_id) 定位，多取一条判断是否还有下一页
+    if (cursor !== undefined) {
+      const position = decodeCursor(cursor);
+      if (!position) {
+        throw new ProtocolError('Invalid pagination cursor', { cursor });
+      }
+
+      const direction = options.before !== undefined ? 'desc' : 'asc';
+      const dbConversations = await query
+        .seek(['created_at', 'conversation_id'], [Number(position.value), position.id], direction)
+        .limit(pageSize + 1);
+
+      const hasNextPage = dbConversations.data.length > pageSize;
+      const rows = dbConversations.data.slice(0, pageSize);
+
+      return {
+        data: rows.map(conv => transformConversation(conv)),
+        pagination: cursorPaginationMeta(pageSize, hasNextPage),
+        nextCursor: hasNextPage ? this.toCursor(rows[rows.length - 1]) : null,
+      };
+    }
+
+    // 分页参数
+    const page = options.page || 1;
+    const { limit, offset } = pageToOffset(page, pageSize);
 
     // 构建排序
     const orderField =
       options.orderBy === 'lastActiveAt' ? 'last_message_created_at' :
       options.orderBy === 'updatedAt' ? 'updated_at' :
       'created_at';
-    const order = `${orderField}.${options.order || 'desc'}`;
-
-    const dbConversations = await this.db.get<DbSchema.Conversation>('conversations', {
-      filter,
-      order,
-      limit,
-      offset,
-      count: 'exact',
-    });
+    const order = options.order || 'desc';
+
+    const dbConversations = await query
+      .order(orderField, order)
+      .order('conversation_id', order)
+      .limit(limit)
+      .offset(offset)
+      .count('exact');
 
     // 获取总数（从响应头）
     const total = dbConversations.count || 0;
     const pagination = calculatePaginationMeta(total, page, pageSize);
+    const last = dbConversations.data[dbConversations.data.length - 1];
 
     return {
       data: dbConversations.data.map(conv => transformConversation(conv)),
       pagination,
+      // 按创建时间排序时，后续页可改用游标（倒序传给 before，正序传给 after）
+      nextCursor: orderField === 'created_at' && pagination.hasNextPage && last ? this.toCursor(last) : null,
     };
   }
 
+  /**
+   * 遍历全部会话（自动翻页）
+   *
+   * 按创建时间排序时使用游标分页；指定 concurrency 或其他排序字段时按页码翻页。
+   *
+   * @example
+   * for await (const conversation of client.conversations.iterate({ appId })) {
+   *   if (done(conversation)) break; // 提前结束，不再拉取后续页
+   * }
+   */
+  iterate(
+    options: Omit<ListConversationsOptions, 'page' | 'before' | 'after'> & IterateOptions = {}
+  ): AsyncGenerator<Conversation, void, undefined> {
+    const { concurrency, limit, ...listOptions } = options;
+
+    if ((concurrency ?? 1) > 1 || (listOptions.orderBy && listOptions.orderBy !== 'createdAt')) {
+      return iterateByPage((page) => this.list({ ...listOptions, page }), { concurrency, limit });
+    }
+
+    const cursorKey = listOptions.order === 'asc' ? 'after' : 'before';
+    return iterateByCursor(
+      (cursor) => this.list(cursor === undefined ? listOptions : { ...listOptions, [cursorKey]: cursor }),
+      { limit }
+    );
+  }
+
+  /**
+   * 行 → 游标（created_at + conversation_id）
+   */
+  private toCursor(dbConv: DbSchema.Conversation): string {
+    return encodeCursor({ value: dbConv.created_at, id: String(dbConv.conversation_id ?? dbConv.id ?? '') });
+  }
+
   /**
    * 获取单个会话
    */
   async get(id: string): Promise<Conversation | null> {
-    const dbConv = await this.db.getOne<DbSchema.Conversation>('conversations', {
-      filter: { id: `eq.${id}` },
-    });
+    const dbConv = await this.db.from('conversations').eq('id', id).maybeSingle();
 
     if (!dbConv) return null;
 
@@ -186,12 +265,10 @@ export class ConversationsResource {
   async update(id: string, data: UpdateConversationData): Promise<Conversation> {
     const dbData = toDbConversation(data);
 
-    const results = await this.db.patch<DbSchema.Conversation>(
-      'conversations',
-      { id: `eq.${id}` },
-      dbData,
-      { returning: 'representation' }
-    );
+    const results = await this.db
+      .from('conversations')
+      .eq('id', id)
+      .update(dbData, { returning: 'representation' });
 
     return transformConversation(results[0]);
   }
@@ -200,7 +277,8 @@ export class ConversationsResource {
    * 删除会话
    */
   async delete(id: string): Promise<void> {
-    await this.db.delete('conversations', { id: `eq.${id}` });
+    await this.db.from('conversations').eq('id', id).delete();
+    this.realtime?.notifyDeleted?.('conversations', { conversation_id: id });
   }
 
   /**
@@ -233,6 +311,7 @@ export class ConversationsResource {
       db: this.db,
       accessToken: accessToken || '',
       authBaseUrl: this.authBaseUrl,
+      logger: this.logger,
     });
   }
 }
@@ -1,13 +1,27 @@
 import type { DbClient } from '../data/DbClient.js';
 import type { Message, DbSchema } from '../types/models.types.js';
-import type { PaginationOptions, PaginatedResult } from '../types/pagination.types.js';
-import { calculatePaginationMeta, pageToOffset } from '../types/pagination.types.js';
+import type {
+  PaginationOptions,
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../types/pagination.types.js';
+import {
+  calculatePaginationMeta,
+  cursorPaginationMeta,
+  decodeCursor,
+  encodeCursor,
+  pageToOffset,
+} from '../types/pagination.types.js';
+import type { RealtimeSource } from '../types/realtime.types.js';
+import { ProtocolError } from '../errors/ProtocolError.js';
+import { iterateByCursor, iterateByPage, type IterateOptions } from '../pagination/iterate.js';
 import { transformMessage, toDbMessage } from '../transforms/message.transform.js';
 
 /**
  * 消息列表查询选项
  */
-export interface ListMessagesOptions extends PaginationOptions {
+export interface ListMessagesOptions extends PaginationOptions, CursorPaginationOptions {
   // 默认按创建时间倒序排列（最新的在前）
 }
 
@@ -24,24 +38,58 @@ export interface CreateMessageData {
  * 消息资源类
  */
 export class MessagesResource {
-  constructor(private readonly db: DbClient) {}
+  constructor(
+    private readonly db: DbClient,
+    private readonly realtime?: RealtimeSource
+  ) {}
 
   /**
    * 列出会话的消息（带分页和去重）
+   *
+   * 传入 before/after 时返回游标分页结果（pagination 不含页码和总数）。
    */
-  async list(conversationId: string, options: ListMessagesOptions = {}): Promise<PaginatedResult<Message>> {
+  list(conversationId: string, options?: ListMessagesOptions & { before?: undefined; after?: undefined }): Promise<PaginatedResult<Message>>;
+  list(conversationId: string, options?: ListMessagesOptions): Promise<PaginatedResult<Message> | CursorPaginatedResult<Message>>;
+  async list(conversationId: string, options: ListMessagesOptions = {}): Promise<PaginatedResult<Message> | CursorPaginatedResult<Message>> {
+    const pageSize = options.pageSize || 100;
+    const cursor = options.before ?? options.after;
+
+    // 游标分页：按 (created_at, id) 定位，多取一条判断是否还有下一页
+    if (cursor !== undefined) {
+      const position = decodeCursor(cursor);
+      if (!position) {
+        throw new ProtocolError('Invalid pagination cursor', { cursor });
+      }
+
+      const direction = options.before !== undefined ? 'desc' : 'asc';
+      const dbMessages = await this.db
+        .from('messages')
+        .eq('conversation_id', conversationId)
+        .seek(['created_at', 'id'], [Number(position.value), position.id], direction)
+        .limit(pageSize + 1);
+
+      const hasNextPage = dbMessages.data.length > pageSize;
+      const rows = dbMessages.data.slice(0, pageSize);
+
+      return {
+        data: this.deduplicateMediaMessages(rows.map(transformMessage)),
+        pagination: cursorPaginationMeta(pageSize, hasNextPage),
+        nextCursor: hasNextPage ? this.toCursor(rows[rows.length - 1]) : null,
+      };
+    }
+
     // 分页参数
     const page = options.page || 1;
-    const pageSize = options.pageSize || 100;
     const { limit, offset } = pageToOffset(page, pageSize);
 
-    const dbMessages = await this.db.get<DbSchema.Message>('messages', {
-      filter: { conversation_id: `eq.${conversationId}` },
-      order: 'created_at.desc', // 默认倒序，最新的消息在前
-      limit,
-      offset,
-      count: 'exact',
-    });
+    const dbMessages = await this.db
+      .from('messages')
+      .eq('conversation_id', conversationId)
+      .order('created_at', 'desc') // 默认倒序，最新的消息在前
+      .order('id', 'desc')
+      .limit(limit)
+      .offset(offset)
+      .count('exact');
 
     // 转换消息
     const messages = dbMessages.data.map(transformMessage);
@@ -52,10 +100,13 @@ export class MessagesResource {
     // 获取总数（从响应头）
     const total = dbMessages.count || 0;
     const pagination = calculatePaginationMeta(total, page, pageSize);
+    const last = dbMessages.data[dbMessages.data.length - 1];
 
     return {
       data: dedupedMessages,
       pagination,
+      // 后续页可改用游标（传给 before），避免再次 count
+      nextCursor: pagination.hasNextPage && last ? this.toCursor(last) : null,
     };
   }
 
@@ -63,9 +114,7 @@ export class MessagesResource {
    * 获取单条消息
    */
   async get(messageId: string): Promise<Message | null> {
-    const dbMsg = await this.db.getOne<DbSchema.Message>('messages', {
-      filter: { id: `eq.${messageId}` },
-    });
+    const dbMsg = await this.db.from('messages').eq('id', messageId).maybeSingle();
 
     if (!dbMsg) return null;
 
@@ -94,12 +143,10 @@ export class MessagesResource {
   async update(messageId: string, data: Partial<CreateMessageData>): Promise<Message> {
     const dbData = toDbMessage(data);
 
-    const results = await this.db.patch<DbSchema.Message>(
-      'messages',
-      { id: `eq.${messageId}` },
-      dbData,
-      { returning: 'representation' }
-    );
+    const results = await this.db
+      .from('messages')
+      .eq('id', messageId)
+      .update(dbData, { returning: 'representation' });
 
     return transformMessage(results[0]);
   }
@@ -108,7 +155,41 @@ export class MessagesResource {
    * 删除消息
    */
   async delete(messageId: string): Promise<void> {
-    await this.db.delete('messages', { id: `eq.${messageId}` });
+    await this.db.from('messages').eq('id', messageId).delete();
+    this.realtime?.notifyDeleted?.('messages', { id: messageId });
+  }
+
+  /**
+   * 遍历会话的全部消息（自动翻页，最新的在前）
+   *
+   * 默认使用游标分页；指定 concurrency 时按页码并行预取。
+   *
+   * @example
+   * for await (const message of client.messages.iterate(conversationId)) {
+   *   exported.push(message);
+   * }
+   */
+  iterate(
+    conversationId: string,
+    options: Omit<ListMessagesOptions, 'page' | 'before' | 'after'> & IterateOptions = {}
+  ): AsyncGenerator<Message, void, undefined> {
+    const { concurrency, limit, ...listOptions } = options;
+
+    if ((concurrency ?? 1) > 1) {
+      return iterateByPage((page) => this.list(conversationId, { ...listOptions, page }), { concurrency, limit });
+    }
+
+    return iterateByCursor(
+      (before) => this.list(conversationId, { ...listOptions, before }),
+      { limit }
+    );
+  }
+
+  /**
+   * 行 → 游标（created_at + id，与 seek/order 使用同一主键列）
+   */
+  private toCursor(dbMsg: DbSchema.Message): string {
+    return encodeCursor({ value: dbMsg.created_at, id: String(dbMsg.id ?? '') });
   }
 
   /**
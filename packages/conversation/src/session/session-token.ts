@@ -1,4 +1,6 @@
 import { AuthError } from '../errors/AuthError.js';
+import { silentLogger } from '../logging/logger.js';
+import type { Logger } from '../types/logger.types.js';
 
 /**
  * Configuration for URL session token generation
@@ -25,6 +27,11 @@ export interface UrlSessionTokenConfig {
    * @default 10000
    */
   timeoutMs?: number;
+
+  /**
+   * Logger (silent by default)
+   */
+  logger?: Logger;
 }
 
 /**
@@ -79,10 +86,11 @@ export async function getUrlSessionToken(
 ): Promise<string | null> {
   const {
     accessToken,
+    logger = silentLogger,
   } = config;
 
   if (!accessToken) {
-    console.warn('[getUrlSessionToken] No access token provided');
+    logger.warn('No access token provided');
     return null;
   }
 
@@ -123,6 +131,7 @@ async function fetchUrlSessionToken(
     accessToken,
     fetch: customFetch = globalThis.fetch,
     timeoutMs = 10000,
+    logger = silentLogger,
   } = config;
 
   const startTime = Date.now();
@@ -159,9 +168,7 @@ async function fetchUrlSessionToken(
           );
         }
 
-        console.error(
-          `[getUrlSessionToken] Failed: ${response.status} ${response.statusText} (${elapsed}ms)`
-        );
+        logger.error(`Failed: ${response.status} ${response.statusText} (${elapsed}ms)`);
         return null;
       }
 
@@ -169,11 +176,11 @@ async function fetchUrlSessionToken(
       const urlSessionToken = data.data?.url_session_token || null;
 
       if (urlSessionToken) {
-        console.log(`[getUrlSessionToken] Success: got token (${elapsed}ms)`);
+        logger.debug(`Success: got token (${elapsed}ms)`);
       } else {
-        console.warn(
-          `[getUrlSessionToken] Response OK but no url_session_token in data (${elapsed}ms)`,
-          data
+        logger.warn(
+          `Response OK but no url_session_token in data (${elapsed}ms)`,
+          { code: data.code, message: data.message }
         );
       }
 
@@ -182,7 +189,7 @@ async function fetchUrlSessionToken(
       clearTimeout(timeoutId);
 
       if (error instanceof Error && error.name === 'AbortError') {
-        console.error(`[getUrlSessionToken] Timeout after ${timeoutMs}ms`);
+        logger.error(`Timeout after ${timeoutMs}ms`);
         return null;
       }
 
@@ -195,7 +202,7 @@ async function fetchUrlSessionToken(
       throw error;
     }
 
-    console.error(`[getUrlSessionToken] Error (${elapsed}ms):`, error);
+    logger.error(`Error (${elapsed}ms):`, error);
     return null;
   }
 }
@@ -10,6 +10,26 @@ import type {
 } from '../types/http.types.js';
 import type { HttpClientConfig } from './config.types.js';
 import { withTimeout } from './timeout.js';
+import { silentLogger } from '../logging/logger.js';
+
+/**
+ * 不含用户数据的查询参数（日志中保留原值）
+ */
+const SAFE_QUERY_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns']);
+
+/**
+ * 日志用 URL：过滤条件的值（搜索文本、ID 等）替换为 [REDACTED]
+ */
+function describeUrl(url: string): string {
+  const [base, query] = url.split('?', 2);
+  if (!query) return url;
+
+  const params = query.split('&').map((param) => {
+    const key = param.split('=', 1)[0];
+    return SAFE_QUERY_PARAMS.has(key) || !param.includes('=') ? param : `${key}=[REDACTED]`;
+  });
+  return `${base}?${params.join('&')}`;
+}
 
 /**
  * HTTP client for making requests
@@ -32,6 +52,7 @@ export class HttpClient {
       onRequest: config.onRequest || (() => {}),
       onResponse: config.onResponse || (() => {}),
       onError: config.onError || (() => {}),
+      logger: config.logger || silentLogger,
     };
   }
 
@@ -44,6 +65,7 @@ export class HttpClient {
   ): Promise<HttpResponse<T>> {
     const url = `${this.config.baseUrl}${path}`;
     const method = options.method || 'GET';
+    const startTime = Date.now();
 
     try {
       // Build headers
@@ -116,6 +138,8 @@ export class HttpClient {
         headers: response.headers,
       };
 
+      this.config.logger.debug(`${method} ${describeUrl(url)} ${response.status} (${Date.now() - startTime}ms)`);
+
       // Call onResponse hook
       await this.config.onResponse({
         url,
@@ -127,6 +151,8 @@ export class HttpClient {
 
       return result;
     } catch (error) {
+      this.config.logger.error(`${method} ${describeUrl(url)} failed (${Date.now() - startTime}ms):`, error);
+
       // Call onError hook
       if (error instanceof BaseError) {
         await this.config.onError({
@@ -4,6 +4,7 @@ import type {
   OnResponseHook,
   OnErrorHook,
 } from '../types/http.types.js';
+import type { Logger } from '../types/logger.types.js';
 
 /**
  * HTTP client configuration
@@ -48,4 +49,9 @@ export interface HttpClientConfig {
    * Hook called on error
    */
   onError?: OnErrorHook;
+
+  /**
+   * Logger for requests and failures (silent by default)
+   */
+  logger?: Logger;
 }
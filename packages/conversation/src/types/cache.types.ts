@@ -0,0 +1,44 @@
+import type { App, Conversation, Message } from './models.types.js';
+
+/**
+ * 缓存的实体类型
+ */
+export type EntityType = 'conversations' | 'messages' | 'apps';
+
+/**
+ * 实体类型 → 模型
+ */
+export interface CachedEntities {
+  conversations: Conversation;
+  messages: Message;
+  apps: App;
+}
+
+/**
+ * 读缓存配置
+ *
+ * @example
+ * initConversationSdk({
+ *   ...config,
+ *   cache: { ttl: 30_000, staleWhileRevalidate: 300_000 },
+ * });
+ */
+export interface CacheConfig {
+  /**
+   * 列表结果的新鲜期（毫秒），期间直接返回缓存
+   * @default 30000
+   */
+  ttl?: number;
+
+  /**
+   * 过期后仍可返回旧数据的时长（毫秒），同时在后台重新拉取
+   * @default 300000
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * 最多缓存的列表查询数（超出后淘汰最早的查询）
+   * @default 100
+   */
+  maxQueries?: number;
+}
@@ -1,4 +1,7 @@
 import type { TokenProvider } from './token.types.js';
+import type { LoggerOptions } from './logger.types.js';
+import type { RealtimeConfig } from './realtime.types.js';
+import type { CacheConfig } from './cache.types.js';
 
 /**
  * Conversation SDK 客户端配置
@@ -29,4 +32,21 @@ export interface ConversationClientConfig {
    * @default 30000
    */
   timeout?: number;
+
+  /**
+   * 日志配置（不传则不输出任何日志）
+   */
+  logger?: LoggerOptions;
+
+  /**
+   * 实时订阅配置（`subscribe` 使用；默认轮询）
+   */
+  realtime?: RealtimeConfig;
+
+  /**
+   * 读缓存（`initConversationSdk` 的列表查询使用）
+   *
+   * 不传时不缓存结果，只合并相同的并发请求；传 `true` 使用默认配置。
+   */
+  cache?: boolean | CacheConfig;
 }
@@ -1,6 +1,9 @@
 // 配置类型
 export type { ConversationClientConfig } from './config.types.js';
 
+// 日志类型
+export type { LogLevel, Logger, LoggerOptions } from './logger.types.js';
+
 // 业务模型类型（camelCase）
 export type {
   Conversation,
@@ -15,11 +18,30 @@ export type {
   ListAppsWithConversationsResult,
 } from './models.types.js';
 
+// 缓存类型
+export type { CacheConfig, CachedEntities, EntityType } from './cache.types.js';
+
+// 实时订阅类型
+export type {
+  RealtimeConfig,
+  RealtimeSource,
+  RealtimeTable,
+  RowChange,
+  RowFilter,
+  ChangeEvent,
+  ChangeHandler,
+  SubscribeFilters,
+  SubscribeRecords,
+} from './realtime.types.js';
+
 // 分页类型
 export type {
   PaginationMeta,
+  CursorPaginationMeta,
   PaginatedResult,
+  CursorPaginatedResult,
   PaginationOptions,
+  CursorPaginationOptions,
 } from './pagination.types.js';
 
 // 资源选项类型
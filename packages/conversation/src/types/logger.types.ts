@@ -0,0 +1,52 @@
+/**
+ * 日志级别（`silent` 关闭日志）
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * 日志输出（兼容 `console`、pino、winston 等）
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+/**
+ * 日志配置
+ *
+ * 与 `@sealink/chat` 的 `logger` 选项结构相同，可传入同一个对象。
+ *
+ * @example
+ * initConversationSdk({
+ *   ...config,
+ *   logger: { level: 'debug', namespaces: ['conversation:*'] },
+ * });
+ */
+export interface LoggerOptions {
+  /**
+   * 最低输出级别
+   * @default 'info'
+   */
+  level?: LogLevel;
+
+  /**
+   * 输出的命名空间（支持 `*` 通配，如 `conversation:*`）；不传则全部输出
+   *
+   * Conversation SDK 命名空间：`conversation:http`、`conversation:session-token`、`conversation:realtime`、`conversation:cache`。
+   */
+  namespaces?: string[];
+
+  /**
+   * 将 token 和消息内容替换为 `[REDACTED]`
+   * @default true
+   */
+  redact?: boolean;
+
+  /**
+   * 日志输出
+   * @default console
+   */
+  output?: Logger;
+}
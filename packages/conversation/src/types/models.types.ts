@@ -196,4 +196,13 @@ export namespace DbSchema {
     fork_count?: number;
     comment_count?: number;
   }
+
+  /**
+   * 表名 → 行类型（用于 `db.from(table)`）
+   */
+  export interface Tables {
+    conversations: Conversation;
+    messages: Message;
+    apps: App;
+  }
 }
@@ -33,10 +33,25 @@ export interface PaginationMeta {
   hasPreviousPage: boolean;
 }
 
+/**
+ * 游标分页元数据（不执行 count，没有页码和总数）
+ */
+export interface CursorPaginationMeta {
+  /**
+   * 每页数量
+   */
+  pageSize: number;
+
+  /**
+   * 沿当前方向是否还有数据
+   */
+  hasNextPage: boolean;
+}
+
 /**
  * 分页结果
  */
-export interface PaginatedResult<T> {
+export interface PaginatedResult<T, M extends PaginationMeta | CursorPaginationMeta = PaginationMeta> {
   /**
    * 数据列表
    */
@@ -45,9 +60,21 @@ export interface PaginatedResult<T> {
   /**
    * 分页元数据
    */
-  pagination: PaginationMeta;
+  pagination: M;
+
+  /**
+   * 下一页游标（不透明字符串，没有更多数据时为 null）
+   *
+   * 沿当前方向继续翻页：倒序列表传给 `before`，正序列表传给 `after`。
+   */
+  nextCursor?: string | null;
 }
 
+/**
+ * 游标分页结果
+ */
+export type CursorPaginatedResult<T> = PaginatedResult<T, CursorPaginationMeta>;
+
 /**
  * 分页选项（基于 page/pageSize）
  */
@@ -65,6 +92,72 @@ export interface PaginationOptions {
   pageSize?: number;
 }
 
+/**
+ * 游标分页选项（keyset，按 created_at + id 定位，不受新数据插入影响）
+ *
+ * 传入游标时忽略 page，且不执行 count。
+ */
+export interface CursorPaginationOptions {
+  /**
+   * 返回早于该游标的数据（按 created_at 倒序）
+   */
+  before?: string;
+
+  /**
+   * 返回晚于该游标的数据（按 created_at 正序）
+   */
+  after?: string;
+}
+
+/**
+ * 游标解码后的位置
+ */
+export interface CursorPosition {
+  /** 排序列的值 */
+  value: string | number;
+  /** 同值时用于排序的 ID */
+  id: string;
+}
+
+/**
+ * 编码游标（UTF-8 JSON 的 base64url，ID 可含任意字符）
+ */
+export function encodeCursor(position: CursorPosition): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([position.value, position.id]));
+
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * 解码游标（无效游标返回 null）
+ */
+export function decodeCursor(cursor: string): CursorPosition | null {
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    const json = new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    const [value, id] = JSON.parse(json);
+
+    if ((typeof value !== 'string' && typeof value !== 'number') || typeof id !== 'string') {
+      return null;
+    }
+
+    return { value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 游标分页的元数据
+ */
+export function cursorPaginationMeta(pageSize: number, hasNextPage: boolean): CursorPaginationMeta {
+  return { pageSize, hasNextPage };
+}
+
 /**
  * 计算分页元数据
  */
@@ -0,0 +1,102 @@
+import type { Conversation, Message, DbSchema } from './models.types.js';
+
+/**
+ * 支持实时订阅的表
+ */
+export type RealtimeTable = 'conversations' | 'messages';
+
+/**
+ * 数据库行变更（实时源输出的原始格式）
+ *
+ * delete 事件只要求包含主键（`conversation_id` / `id`）。
+ */
+export type RowChange<T extends RealtimeTable = RealtimeTable> =
+  | { type: 'insert' | 'update'; row: DbSchema.Tables[T] }
+  | { type: 'delete'; row: Partial<DbSchema.Tables[T]> };
+
+/**
+ * 行过滤条件（列名 → 值，如 `{ conversation_id: 'xxx' }`）
+ */
+export type RowFilter = Record<string, string>;
+
+/**
+ * 可插拔的实时数据源
+ *
+ * 内置轮询实现（`createPollingSource`）；接入 WebSocket/SSE 变更推送时实现此接口即可。
+ *
+ * @example
+ * const source: RealtimeSource = {
+ *   subscribe(table, filter, onChange) {
+ *     const ws = new WebSocket(`wss://example.com/changes/${table}?${new URLSearchParams(filter)}`);
+ *     ws.onmessage = (e) => onChange(JSON.parse(e.data));
+ *     return () => ws.close();
+ *   },
+ * };
+ */
+export interface RealtimeSource {
+  /**
+   * 订阅表的行变更，返回取消订阅函数
+   */
+  subscribe<T extends RealtimeTable>(
+    table: T,
+    filter: RowFilter,
+    onChange: (change: RowChange<T>) => void,
+    onError?: (error: Error) => void
+  ): () => void;
+
+  /**
+   * SDK 删除数据后调用（可选）
+   *
+   * 轮询无法感知删除，轮询源据此向匹配的订阅补发 delete 事件；推送源通常不需要实现。
+   */
+  notifyDeleted?<T extends RealtimeTable>(table: T, row: Partial<DbSchema.Tables[T]>): void;
+}
+
+/**
+ * 订阅事件
+ */
+export type ChangeEvent<T> =
+  | { type: 'insert' | 'update'; record: T }
+  | { type: 'delete'; id: string };
+
+/**
+ * 各表的订阅过滤条件
+ */
+export interface SubscribeFilters {
+  conversations: {
+    /** 只接收该应用的会话（不传则接收当前用户的全部会话） */
+    appId?: string;
+  };
+  messages: {
+    conversationId: string;
+  };
+}
+
+/**
+ * 各表的事件数据类型
+ */
+export interface SubscribeRecords {
+  conversations: Conversation;
+  messages: Message;
+}
+
+/**
+ * 订阅处理函数
+ */
+export type ChangeHandler<T extends RealtimeTable> = (event: ChangeEvent<SubscribeRecords[T]>) => void;
+
+/**
+ * 实时订阅配置
+ */
+export interface RealtimeConfig {
+  /**
+   * 实时数据源（不传则使用轮询）
+   */
+  source?: RealtimeSource;
+
+  /**
+   * 轮询间隔（毫秒，仅在未指定 source 时生效）
+   * @default 5000
+   */
+  pollInterval?: number;
+}
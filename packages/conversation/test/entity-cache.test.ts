@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EntityCache } from '../src/cache/EntityCache.js';
+import type { Conversation } from '../src/types/models.types.js';
+
+const conversation = (id: string, title: string): Conversation => ({
+  id,
+  title,
+  appId: 'a1',
+  userId: 'u1',
+  createdAt: 1,
+  updatedAt: 1,
+  lastActiveAt: 1,
+  messageCount: 0,
+});
+
+/**
+ * 每次调用返回一页新数据的 fetcher
+ */
+function createFetcher(title = 'v') {
+  let calls = 0;
+  const fetcher = vi.fn(async () => {
+    calls++;
+    return { data: [conversation('c1', `${title}${calls}`)], hasMore: false };
+  });
+  return fetcher;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('EntityCache', () => {
+  it('serves fresh results from the cache until the ttl expires', async () => {
+    vi.useFakeTimers();
+    const cache = new EntityCache({ ttl: 1000, staleWhileRevalidate: 0 });
+    const fetcher = createFetcher();
+
+    await cache.query('conversations', 'k', ['conversations'], fetcher);
+    const cached = await cache.query('conversations', 'k', ['conversations'], fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cached.data[0].title).toBe('v1');
+
+    vi.advanceTimersByTime(1000);
+    const refetched = await cache.query('conversations', 'k', ['conversations'], fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(refetched.data[0].title).toBe('v2');
+  });
+
+  it('returns stale results while revalidating in the background', async () => {
+    vi.useFakeTimers();
+    const cache = new EntityCache({ ttl: 1000, staleWhileRevalidate: 5000 });
+    const fetcher = createFetcher();
+
+    await cache.query('conversations', 'k', ['conversations'], fetcher);
+    vi.advanceTimersByTime(2000);
+
+    const stale = await cache.query('conversations', 'k', ['conversations'], fetcher);
+    expect(stale.data[0].title).toBe('v1');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(0);
+    const fresh = await cache.query('conversations', 'k', ['conversations'], fetcher);
+    expect(fresh.data[0].title).toBe('v2');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends concurrent queries with the same key once', async () => {
+    const cache = new EntityCache(undefined);
+    const fetcher = createFetcher();
+
+    const [first, second] = await Promise.all([
+      cache.query('conversations', 'k', ['conversations'], fetcher),
+      cache.query('conversations', 'k', ['conversations'], fetcher),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(second).not.toBe(first);
+  });
+
+  it('only discards in-flight results of the invalidated tags', async () => {
+    const cache = new EntityCache({});
+    let resolveMessages!: () => void;
+    const messages = cache.query('messages', 'm', ['messages', 'messages:c1'], async () => {
+      await new Promise<void>((resolve) => (resolveMessages = resolve));
+      return { data: [], hasMore: false };
+    });
+    let resolveConversations!: () => void;
+    const conversations = cache.query('conversations', 'c', ['conversations'], async () => {
+      await new Promise<void>((resolve) => (resolveConversations = resolve));
+      return { data: [conversation('c1', 'v1')], hasMore: false };
+    });
+
+    cache.invalidate('messages:c1');
+    resolveMessages();
+    resolveConversations();
+    await Promise.all([messages, conversations]);
+
+    const fetchConversations = createFetcher();
+    const fetchMessages = vi.fn(async () => ({ data: [], hasMore: false }));
+    await cache.query('conversations', 'c', ['conversations'], fetchConversations);
+    await cache.query('messages', 'm', ['messages', 'messages:c1'], fetchMessages);
+    expect(fetchConversations).not.toHaveBeenCalled();
+    expect(fetchMessages).toHaveBeenCalledTimes(1);
+    expect(cache.get('conversations', 'c1')?.title).toBe('v1');
+  });
+
+  it('hands out copies of cached entities', async () => {
+    const cache = new EntityCache({});
+    const result = await cache.query('conversations', 'k', ['conversations'], createFetcher());
+
+    result.data[0].title = 'mutated';
+    cache.get('conversations', 'c1')!.title = 'mutated';
+    const cached = await cache.query('conversations', 'k', ['conversations'], createFetcher());
+    cached.data[0].title = 'mutated';
+
+    expect(cache.get('conversations', 'c1')?.title).toBe('v1');
+  });
+});
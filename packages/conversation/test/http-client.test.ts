@@ -0,0 +1,21 @@
+import { describe, expect, it, vi } from 'vitest';
+import { HttpClient } from '../src/transport/HttpClient.js';
+
+describe('HttpClient', () => {
+  it('keeps filter values out of request logs', async () => {
+    const output = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const client = new HttpClient({
+      baseUrl: 'https://db.example.test',
+      fetch: vi.fn(async () => new Response('[]', { headers: { 'content-type': 'application/json' } })),
+      logger: output,
+    });
+
+    await client.request('/conversations?select=*&title=ilike.*secret%20plan*&app_id=eq.a1&order=created_at.desc&limit=20');
+
+    expect(output.debug).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^GET https:\/\/db\.example\.test\/conversations\?select=\*&title=\[REDACTED\]&app_id=\[REDACTED\]&order=created_at\.desc&limit=20 200 /
+      )
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from 'vitest';
+import { iterateByCursor, iterateByPage } from '../src/pagination/iterate.js';
+import type { CursorPaginationMeta, PaginatedResult } from '../src/types/pagination.types.js';
+
+/**
+ * 按页码生成结果（每页 pageSize 条）
+ */
+function pageOf(page: number, totalPages: number, pageSize = 2): PaginatedResult<string> {
+  return {
+    data: Array.from({ length: pageSize }, (_, i) => `p${page}-${i}`),
+    pagination: {
+      total: totalPages * pageSize,
+      page,
+      pageSize,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    },
+  };
+}
+
+/**
+ * 由测试控制何时返回的分页请求
+ */
+function controlledPages(totalPages: number) {
+  const requests = new Map<number, { resolve: () => void; reject: (error: Error) => void }>();
+  const fetchPage = vi.fn(
+    (page: number) =>
+      new Promise<PaginatedResult<string>>((resolve, reject) => {
+        requests.set(page, { resolve: () => resolve(pageOf(page, totalPages)), reject });
+      })
+  );
+  return { fetchPage, requests };
+}
+
+/**
+ * 读取全部结果，同时让各个请求按给定顺序返回
+ */
+async function drain<T>(iterator: AsyncGenerator<T>, settle: () => Promise<void>): Promise<T[]> {
+  const items: T[] = [];
+  const collecting = (async () => {
+    for await (const item of iterator) items.push(item);
+  })();
+  await settle();
+  await collecting;
+  return items;
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('iterateByCursor', () => {
+  const pages: Record<string, PaginatedResult<string, CursorPaginationMeta>> = {
+    start: { data: ['a', 'b'], pagination: { pageSize: 2, hasNextPage: true }, nextCursor: 'c1' },
+    c1: { data: ['c', 'd'], pagination: { pageSize: 2, hasNextPage: true }, nextCursor: 'c2' },
+    c2: { data: ['e'], pagination: { pageSize: 2, hasNextPage: false }, nextCursor: null },
+  };
+
+  it('follows the cursors until the last page', async () => {
+    const fetchPage = vi.fn(async (cursor: string | undefined) => pages[cursor ?? 'start']);
+    const items: string[] = [];
+
+    for await (const item of iterateByCursor(fetchPage)) items.push(item);
+
+    expect(items).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(fetchPage.mock.calls.map(([cursor]) => cursor)).toEqual([undefined, 'c1', 'c2']);
+  });
+
+  it('stops fetching at the limit', async () => {
+    const fetchPage = vi.fn(async (cursor: string | undefined) => pages[cursor ?? 'start']);
+    const items: string[] = [];
+
+    for await (const item of iterateByCursor(fetchPage, { limit: 2 })) items.push(item);
+
+    expect(items).toEqual(['a', 'b']);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('iterateByPage', () => {
+  it('prefetches up to concurrency pages and yields them in order', async () => {
+    const { fetchPage, requests } = controlledPages(5);
+    const iterator = iterateByPage(fetchPage, { concurrency: 2 });
+
+    const items = await drain(iterator, async () => {
+      requests.get(1)!.resolve();
+      await flush();
+      expect(fetchPage.mock.calls.map(([page]) => page)).toEqual([1, 2, 3]);
+
+      // 后面的页先返回，仍按页码顺序产出
+      requests.get(3)!.resolve();
+      requests.get(2)!.resolve();
+      await flush();
+      expect(fetchPage.mock.calls.map(([page]) => page)).toEqual([1, 2, 3, 4, 5]);
+
+      requests.get(5)!.resolve();
+      requests.get(4)!.resolve();
+    });
+
+    expect(items).toEqual(['p1-0', 'p1-1', 'p2-0', 'p2-1', 'p3-0', 'p3-1', 'p4-0', 'p4-1', 'p5-0', 'p5-1']);
+  });
+
+  it('does not prefetch when the first page covers the limit', async () => {
+    const fetchPage = vi.fn(async (page: number) => pageOf(page, 5));
+    const items: string[] = [];
+
+    for await (const item of iterateByPage(fetchPage, { concurrency: 3, limit: 2 })) items.push(item);
+
+    expect(items).toEqual(['p1-0', 'p1-1']);
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops requesting pages after break and ignores failed prefetches', async () => {
+    const { fetchPage, requests } = controlledPages(5);
+    const items: string[] = [];
+
+    const collecting = (async () => {
+      for await (const item of iterateByPage(fetchPage, { concurrency: 2 })) {
+        items.push(item);
+        if (items.length === 2) break;
+      }
+    })();
+    requests.get(1)!.resolve();
+    await collecting;
+    requests.get(2)!.reject(new Error('boom'));
+    requests.get(3)!.reject(new Error('boom'));
+    // 被丢弃请求的 rejection 不应成为未处理的 rejection（vitest 会因此报错）
+    await flush();
+
+    expect(items).toEqual(['p1-0', 'p1-1']);
+    expect(fetchPage.mock.calls.map(([page]) => page)).toEqual([1, 2, 3]);
+  });
+});
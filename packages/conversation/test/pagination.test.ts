@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DbClient } from '../src/data/DbClient.js';
+import type { QueryOptions } from '../src/data/query.types.js';
+import { QueryBuilder } from '../src/data/QueryBuilder.js';
+import { ProtocolError } from '../src/errors/ProtocolError.js';
+import { MessagesResource } from '../src/resources/MessagesResource.js';
+import { decodeCursor, encodeCursor } from '../src/types/pagination.types.js';
+
+/**
+ * 返回固定结果并记录查询选项的 DbClient
+ */
+function createDb(rows: Array<Record<string, unknown>>, count: number | null = null) {
+  const queries: QueryOptions[] = [];
+  const db = {
+    from: (table: string) => new QueryBuilder(db as unknown as DbClient, table),
+    get: vi.fn(async (_table: string, options: QueryOptions) => {
+      queries.push(options);
+      return { data: rows, count };
+    }),
+  };
+  return { db: db as unknown as DbClient, queries };
+}
+
+const message = (id: string, createdAt: number) => ({
+  id,
+  conversation_id: 'c1',
+  role: 'user',
+  content: id,
+  created_at: createdAt,
+});
+
+describe('cursor encoding', () => {
+  it('round-trips a position', () => {
+    const cursor = encodeCursor({ value: 1700000000, id: 'm/+1' });
+
+    expect(cursor).not.toMatch(/[+/=]/);
+    expect(decodeCursor(cursor)).toEqual({ value: 1700000000, id: 'm/+1' });
+  });
+
+  it('round-trips ids outside Latin-1', () => {
+    const cursor = encodeCursor({ value: '2024-01-01T00:00:00Z', id: '会话-🚀' });
+
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toEqual({ value: '2024-01-01T00:00:00Z', id: '会话-🚀' });
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(btoa(JSON.stringify([1, 2])))).toBeNull();
+  });
+});
+
+describe('MessagesResource.list', () => {
+  it('seeks on created_at + id and returns cursor page metadata', async () => {
+    const { db, queries } = createDb([message('m3', 300), message('m2', 200), message('m1', 200)]);
+    const messages = new MessagesResource(db);
+
+    const result = await messages.list('c1', { before: encodeCursor({ value: 400, id: 'm4' }), pageSize: 2 });
+
+    expect(queries[0]).toMatchObject({
+      filter: [
+        ['conversation_id', 'eq.c1'],
+        ['or', '(created_at.lt.400,and(created_at.eq.400,id.lt.m4))'],
+      ],
+      order: 'created_at.desc,id.desc',
+      limit: 3,
+    });
+    expect(queries[0].count).toBeUndefined();
+    expect(result.pagination).toEqual({ pageSize: 2, hasNextPage: true });
+    expect(decodeCursor(result.nextCursor!)).toEqual({ value: 200, id: 'm2' });
+  });
+
+  it('pages through rows with non-ASCII ids', async () => {
+    const { db, queries } = createDb([message('消息-2', 200), message('消息-1', 100)]);
+    const messages = new MessagesResource(db);
+
+    const first = await messages.list('c1', { before: encodeCursor({ value: 300, id: '消息-3' }), pageSize: 1 });
+    await messages.list('c1', { before: first.nextCursor!, pageSize: 1 });
+
+    expect(queries[1].filter).toContainEqual(['or', '(created_at.lt.200,and(created_at.eq.200,id.lt.消息-2))']);
+  });
+
+  it('ends the cursor sequence on a short page', async () => {
+    const { db } = createDb([message('m1', 100)]);
+
+    const result = await new MessagesResource(db).list('c1', { after: encodeCursor({ value: 0, id: '' }), pageSize: 2 });
+
+    expect(result.pagination).toEqual({ pageSize: 2, hasNextPage: false });
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('keys offset pages on the same id column', async () => {
+    const { db, queries } = createDb([{ ...message('m2', 200), message_id: 'legacy' }], 5);
+
+    const result = await new MessagesResource(db).list('c1', { pageSize: 1 });
+
+    expect(queries[0].order).toBe('created_at.desc,id.desc');
+    expect(result.pagination).toMatchObject({ total: 5, totalPages: 5, page: 1, hasPreviousPage: false });
+    expect(decodeCursor(result.nextCursor!)).toEqual({ value: 200, id: 'm2' });
+  });
+
+  it('rejects an invalid cursor', async () => {
+    const { db } = createDb([]);
+
+    await expect(new MessagesResource(db).list('c1', { before: 'bogus' })).rejects.toBeInstanceOf(ProtocolError);
+  });
+});
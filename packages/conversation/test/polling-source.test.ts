@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { DbClient } from '../src/data/DbClient.js';
+import type { QueryOptions } from '../src/data/query.types.js';
+import { QueryBuilder } from '../src/data/QueryBuilder.js';
+import { createPollingSource } from '../src/realtime/polling-source.js';
+import { subscribeChanges } from '../src/realtime/subscribe.js';
+
+type Row = Record<string, unknown>;
+
+/**
+ * 内存表上的 DbClient（支持 eq / gte / gt 过滤、seek 生成的 or 组、多列排序和 limit）
+ */
+function createDb(tables: Record<string, Row[]>) {
+  const compare = (actual: unknown, value: string) =>
+    typeof actual === 'number' ? actual - Number(value) : String(actual).localeCompare(value);
+  const matches = (row: Row, column: string, op: string, value: string): boolean => {
+    const diff = compare(row[column], value);
+    return op === 'eq' ? diff === 0 : op === 'gt' ? diff > 0 : diff >= 0;
+  };
+
+  const db = {
+    from: (table: string) => new QueryBuilder(db as unknown as DbClient, table),
+    get: async (table: string, options: QueryOptions) => {
+      let rows = [...(tables[table] ?? [])];
+
+      for (const [column, condition] of options.filter as Array<[string, string]>) {
+        if (column === 'or') {
+          // (a.gt.x,and(a.eq.x,id.gt.y))
+          const [, a, x, , b, y] = condition.match(/^\((\w+)\.gt\.([^,]+),and\((\w+)\.eq\.[^,]+,(\w+)\.gt\.(.+)\)\)$/)!;
+          rows = rows.filter((row) => matches(row, a, 'gt', x) || (matches(row, a, 'eq', x) && matches(row, b, 'gt', y)));
+          continue;
+        }
+        const [op, value] = [condition.slice(0, condition.indexOf('.')), condition.slice(condition.indexOf('.') + 1)];
+        rows = rows.filter((row) => matches(row, column, op, value));
+      }
+
+      const orders = (options.order ?? '').split(',').filter(Boolean).map((order) => order.split('.'));
+      rows.sort((a, b) => {
+        for (const [column, direction] of orders) {
+          const diff = a[column]! < b[column]! ? -1 : a[column]! > b[column]! ? 1 : 0;
+          if (diff !== 0) return direction === 'desc' ? -diff : diff;
+        }
+        return 0;
+      });
+
+      return { data: rows.slice(0, options.limit), count: null };
+    },
+  };
+  return db as unknown as DbClient;
+}
+
+const message = (id: string, createdAt: number) => ({ id, conversation_id: 'c1', role: 'user', content: id, created_at: createdAt });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createPollingSource', () => {
+  it('reports every new message in the same second once', async () => {
+    vi.useFakeTimers();
+    const messages: Row[] = [message('m1', 100)];
+    const source = createPollingSource(createDb({ messages }), { interval: 1000 });
+    const onChange = vi.fn();
+
+    const unsubscribe = source.subscribe('messages', { conversation_id: 'c1' }, onChange);
+    await vi.advanceTimersByTimeAsync(0);
+
+    messages.push(message('m2', 100), message('m3', 100));
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    messages.push(message('m4', 101));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onChange.mock.calls.map(([change]) => [change.type, change.row.id])).toEqual([
+      ['insert', 'm2'],
+      ['insert', 'm3'],
+      ['insert', 'm4'],
+    ]);
+    unsubscribe();
+  });
+
+  it('moves past a second with more rows than one batch', async () => {
+    vi.useFakeTimers();
+    const messages: Row[] = [message('m0', 100)];
+    const source = createPollingSource(createDb({ messages }), { interval: 1000, batchSize: 2 });
+    const onChange = vi.fn();
+
+    const unsubscribe = source.subscribe('messages', { conversation_id: 'c1' }, onChange);
+    await vi.advanceTimersByTimeAsync(0);
+
+    messages.push(message('m1', 101), message('m2', 101), message('m3', 101), message('m4', 101), message('m5', 102));
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onChange.mock.calls.map(([change]) => change.row.id)).toEqual(['m1', 'm2', 'm3', 'm4', 'm5']);
+    unsubscribe();
+  });
+
+  it('reports a second update to a conversation within the same second', async () => {
+    vi.useFakeTimers();
+    const conversations: Row[] = [{ conversation_id: 'a', title: 'A', created_at: 100, updated_at: 100 }];
+    const source = createPollingSource(createDb({ conversations }), { interval: 1000 });
+    const onChange = vi.fn();
+
+    const unsubscribe = source.subscribe('conversations', {}, onChange);
+    await vi.advanceTimersByTimeAsync(0);
+
+    conversations[0] = { ...conversations[0], title: 'B', updated_at: 101 };
+    await vi.advanceTimersByTimeAsync(1000);
+    conversations[0] = { ...conversations[0], title: 'C' };
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onChange.mock.calls.map(([change]) => [change.type, change.row.title])).toEqual([
+      ['update', 'B'],
+      ['update', 'C'],
+    ]);
+    unsubscribe();
+  });
+
+  it('reports conversation updates after the first insert', async () => {
+    vi.useFakeTimers();
+    const conversations: Row[] = [{ conversation_id: 'a', created_at: 100, updated_at: 100 }];
+    const source = createPollingSource(createDb({ conversations }), { interval: 1000 });
+    const onChange = vi.fn();
+
+    const unsubscribe = source.subscribe('conversations', {}, onChange);
+    await vi.advanceTimersByTimeAsync(0);
+
+    conversations.push({ conversation_id: 'b', created_at: 101, updated_at: 101 });
+    await vi.advanceTimersByTimeAsync(1000);
+    conversations[1] = { ...conversations[1], updated_at: 102 };
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(onChange.mock.calls.map(([change]) => [change.type, change.row.conversation_id])).toEqual([
+      ['insert', 'b'],
+      ['update', 'b'],
+    ]);
+    unsubscribe();
+  });
+});
+
+describe('subscribeChanges', () => {
+  it('reports deleted messages by message id', () => {
+    const source = createPollingSource(createDb({}), { interval: 60_000 });
+    const handler = vi.fn();
+
+    const unsubscribe = subscribeChanges(source, 'messages', { conversationId: 'c1' }, handler);
+    source.notifyDeleted!('messages', { id: 'm1', conversation_id: 'c1' });
+
+    expect(handler).toHaveBeenCalledWith({ type: 'delete', id: 'm1' });
+    unsubscribe();
+  });
+});
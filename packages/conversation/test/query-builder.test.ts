@@ -0,0 +1,103 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DbClient } from '../src/data/DbClient.js';
+import { QueryBuilder } from '../src/data/QueryBuilder.js';
+import { ProtocolError } from '../src/errors/ProtocolError.js';
+
+interface Row {
+  id: string;
+  title: string;
+  status: string;
+  created_at: number;
+  metadata: Record<string, unknown>;
+}
+
+function createDb() {
+  const db = {
+    get: vi.fn(async () => ({ data: [], count: null })),
+    patch: vi.fn(async () => []),
+    delete: vi.fn(async () => {}),
+  };
+  const from = () => new QueryBuilder<Row>(db as unknown as DbClient, 'conversations');
+  return { db, from };
+}
+
+describe('QueryBuilder', () => {
+  it('sends top-level values as-is and quotes values inside logic groups', () => {
+    const { from } = createDb();
+
+    const options = from()
+      .eq('title', 'a,b.c)')
+      .or((f) => f.eq('title', 'a,b.c)').ilike('status', 'say "hi"').is('metadata->>archived', null))
+      .in('id', ['x', 'y,z'])
+      .toOptions();
+
+    expect(options.filter).toEqual([
+      ['title', 'eq.a,b.c)'],
+      ['or', '(title.eq."a,b.c)",status.ilike."say \\"hi\\"",metadata->>archived.is.null)'],
+      ['id', 'in.(x,"y,z")'],
+    ]);
+  });
+
+  it('negates single conditions and whole groups', () => {
+    const { from } = createDb();
+
+    const options = from()
+      .not('status', 'eq', 'archived')
+      .not('id', 'in', ['a', 'b'])
+      .not((f) => f.eq('status', 'draft').gt('created_at', 10))
+      .or((f) => f.not('status', 'is', null).and((g) => g.eq('title', 't').not('id', 'eq', 'x')))
+      .toOptions();
+
+    expect(options.filter).toEqual([
+      ['status', 'not.eq.archived'],
+      ['id', 'not.in.(a,b)'],
+      ['not.and', '(status.eq.draft,created_at.gt.10)'],
+      ['or', '(status.not.is.null,and(title.eq.t,id.not.eq.x))'],
+    ]);
+  });
+
+  it('seeks past a position in the order direction', () => {
+    const { from } = createDb();
+
+    expect(from().seek(['created_at', 'id'], [100, 'm.1'], 'desc').limit(20).toOptions()).toEqual({
+      filter: [['or', '(created_at.lt.100,and(created_at.eq.100,id.lt."m.1"))']],
+      order: 'created_at.desc,id.desc',
+      limit: 20,
+    });
+    expect(from().seek(['created_at', 'id'], [100, 'm2'], 'asc').toOptions()).toMatchObject({
+      filter: [['or', '(created_at.gt.100,and(created_at.eq.100,id.gt.m2))']],
+      order: 'created_at.asc,id.asc',
+    });
+  });
+
+  it('returns a new builder from select', () => {
+    const { from } = createDb();
+    const base = from().eq('status', 'active').order('created_at', 'desc').range(20, 39).count();
+
+    const selected = base.select<{ id: string }>('id');
+    base.eq('title', 't');
+
+    expect(selected).not.toBe(base);
+    expect(selected.toOptions()).toEqual({
+      select: 'id',
+      filter: [['status', 'eq.active']],
+      order: 'created_at.desc',
+      limit: 20,
+      offset: 20,
+      count: 'exact',
+    });
+    expect(base.toOptions().select).toBeUndefined();
+  });
+
+  it('refuses to update or delete without filters', async () => {
+    const { db, from } = createDb();
+
+    await expect(from().update({ title: 't' })).rejects.toBeInstanceOf(ProtocolError);
+    await expect(from().delete()).rejects.toBeInstanceOf(ProtocolError);
+    expect(db.patch).not.toHaveBeenCalled();
+    expect(db.delete).not.toHaveBeenCalled();
+
+    await from().eq('id', 'c1').delete();
+    expect(db.delete).toHaveBeenCalledWith('conversations', [['id', 'eq.c1']]);
+  });
+});